@@ -16,6 +16,14 @@ const $tabs = document.getElementById("tabs");
 const $status = document.getElementById("status");
 const $title = document.getElementById("folderTitle");
 const $hint = document.getElementById("fileHint");
+const $findUsages = document.getElementById("findUsages");
+const $saveAll = document.getElementById("saveAll");
+const $dirtySummary = document.getElementById("dirtySummary");
+const $merge = document.getElementById("merge");
+const $mergeTitle = document.getElementById("mergeTitle");
+const $mergeEditor = document.getElementById("mergeEditor");
+const $mergeApply = document.getElementById("mergeApply");
+const $mergeCancel = document.getElementById("mergeCancel");
 
 // -----------------------------
 // utils
@@ -42,14 +50,38 @@ function ensureEditorReady(fn) {
 }
 
 function setLanguageByKeySafe(key) {
+  // 탭마다 Monaco language (seasonEditor.tabs 설정 포함)
+  const tab = tabs.find((t) => t.key === key);
   try {
-    window.__WIZ_SET_LANG__?.(key);
+    window.__WIZ_SET_LANG__?.(tab?.language);
   } catch {}
 }
 
 function updateHintForKey(key) {
   const tab = tabs.find((t) => t.key === key);
   if ($hint) $hint.textContent = tab?.filename ?? "";
+  // template 기준 액션이라 Info(app.json) 탭에서만 노출
+  if ($findUsages) $findUsages.hidden = key !== "info";
+}
+
+if ($findUsages) {
+  $findUsages.onclick = () => vscode.postMessage({ type: "findUsages" });
+}
+
+if ($saveAll) {
+  $saveAll.onclick = () => saveAll();
+}
+
+// 폴더 단위 요약: "2 unsaved: view.pug, api.py"
+function renderDirtySummary() {
+  const dirty = tabs.filter((t) => dirtyByKey[t.key]);
+
+  if ($saveAll) $saveAll.hidden = dirty.length === 0;
+  if (!$dirtySummary) return;
+
+  $dirtySummary.textContent = dirty.length
+    ? `${dirty.length} unsaved: ${dirty.map((t) => t.filename).join(", ")}`
+    : "";
 }
 
 function renderTabs() {
@@ -57,15 +89,18 @@ function renderTabs() {
   $tabs.innerHTML = "";
 
   for (const t of tabs) {
+    const dirty = !!dirtyByKey[t.key];
     const btn = document.createElement("div");
-    btn.className = "tab" + (t.key === activeKey ? " active" : "");
+    btn.className =
+      "tab" + (t.key === activeKey ? " active" : "") + (dirty ? " dirty" : "");
+    btn.title = dirty ? `${t.filename} (unsaved changes)` : t.filename;
     btn.onclick = () => openTab(t.key);
 
     const label = document.createElement("span");
     label.textContent = t.label ?? t.key;
     btn.appendChild(label);
 
-    if (dirtyByKey[t.key]) {
+    if (dirty) {
       const dot = document.createElement("span");
       dot.className = "dot";
       dot.textContent = "●";
@@ -74,6 +109,8 @@ function renderTabs() {
 
     $tabs.appendChild(btn);
   }
+
+  renderDirtySummary();
 }
 
 function normalizeTemplateText(t) {
@@ -102,11 +139,30 @@ function ensureModel(key) {
     const baseText = base == null ? "" : base;
     dirtyByKey[key] = model.getValue() !== baseText;
     renderTabs();
+    scheduleValidate(key);
+
+    // 문서(extension)에 편집 반영 -> VS Code 탭 dirty / backup
+    if (base !== null) {
+      vscode.postMessage({ type: "edit", key, text: model.getValue() });
+    }
   });
 
   return model;
 }
 
+// Info(app.json) 탭은 편집할 때마다 extension에 검증 요청 -> markers로 응답
+const validateTimerByKey = Object.create(null);
+function scheduleValidate(key) {
+  if (key !== "info") return;
+
+  clearTimeout(validateTimerByKey[key]);
+  validateTimerByKey[key] = setTimeout(() => {
+    const model = modelByKey[key];
+    if (!model) return;
+    vscode.postMessage({ type: "validate", key, text: model.getValue() });
+  }, 300);
+}
+
 function insertAtPosition(text, pos) {
   ensureEditorReady((editor) => {
     const model = editor.getModel();
@@ -130,6 +186,29 @@ function insertAtPosition(text, pos) {
   });
 }
 
+// inputs/outputs placeholder가 있는 template -> Tab으로 이동 가능한 snippet 삽입
+function insertSnippetAtPosition(snippet, pos) {
+  ensureEditorReady((editor) => {
+    const controller = editor.getContribution("snippetController2");
+    if (!controller) {
+      insertAtPosition(snippet.replace(/\$\d+/g, ""), pos);
+      return;
+    }
+
+    const p = pos || editor.getPosition();
+    if (p) editor.setPosition(p);
+
+    editor.focus();
+    controller.insert(snippet + (snippet.endsWith("\n") ? "" : "\n"));
+  });
+}
+
+// 템플릿 탭: pug 또는 html 언어 탭 (드롭/자동완성/정의로 이동 대상, 그 외 탭에 드롭하면 pug로 전환)
+function isTemplateTab(key) {
+  if (key === "pug") return true;
+  return tabs.find((t) => t.key === key)?.language === "html";
+}
+
 // -----------------------------
 // tab open/load
 // -----------------------------
@@ -302,8 +381,8 @@ function bindExternalDrop() {
     if (!shouldHandle(e)) return;
     block(e);
 
-    // 드래그 시작 시점에 현재 탭이 pug 아니면 전환 (미리보기 커서가 pug에 보이게)
-    if (activeKey !== "pug") openTab("pug");
+    // 드래그 시작 시점에 현재 탭이 pug/html 아니면 pug로 전환 (미리보기 커서가 보이게)
+    if (!isTemplateTab(activeKey)) openTab("pug");
   };
 
   const onDragOver = (e) => {
@@ -345,7 +424,10 @@ function bindExternalDrop() {
       const target = editor.getTargetAtClientPoint(e.clientX, e.clientY);
       lastDropPosition = target?.position ?? editor.getPosition();
 
-      vscode.postMessage({ type: "requestTemplateFromLastDrag" });
+      vscode.postMessage({
+        type: "requestTemplateFromLastDrag",
+        key: activeKey,
+      });
       setStatus("Loading template...");
     });
   };
@@ -366,6 +448,119 @@ function bindExternalDrop() {
   );
 }
 
+// -----------------------------
+// go to definition (wiz-* tag -> wiz folder)
+// -----------------------------
+function tagAtColumn(lineText, column) {
+  // column: monaco 1 기반
+  const ch = column - 1;
+  for (const m of lineText.matchAll(/(?<![\w-])wiz-[\w-]*\w/g)) {
+    if (ch >= m.index && ch <= m.index + m[0].length) return m[0];
+  }
+  return null;
+}
+
+function requestDefinitionAt(editor, position) {
+  // 드롭/자동완성과 같은 탭 (seasonEditor.tabs로 추가한 html 탭 포함)
+  if (!isTemplateTab(activeKey)) return false;
+
+  const model = editor.getModel();
+  if (!model || !position) return false;
+
+  const tag = tagAtColumn(
+    model.getLineContent(position.lineNumber),
+    position.column
+  );
+  if (!tag) return false;
+
+  vscode.postMessage({ type: "openDefinition", tag });
+  setStatus(`Opening ${tag}...`);
+  return true;
+}
+
+let __DEFINITION_BOUND__ = false;
+function bindGoToDefinition(editor) {
+  if (__DEFINITION_BOUND__) return;
+  __DEFINITION_BOUND__ = true;
+
+  // Ctrl/Cmd + click
+  editor.onMouseDown((e) => {
+    if (!(e.event.ctrlKey || e.event.metaKey)) return;
+    if (requestDefinitionAt(editor, e.target?.position)) {
+      e.event.preventDefault();
+    }
+  });
+
+  // F12
+  editor.addAction({
+    id: "wiz.goToDefinition",
+    label: "Go to Wiz Folder",
+    keybindings: [monaco.KeyCode.F12],
+    contextMenuGroupId: "navigation",
+    run: (ed) => {
+      requestDefinitionAt(ed, ed.getPosition());
+    },
+  });
+}
+
+// -----------------------------
+// wiz-* 태그 자동완성 (extension 인덱스 -> wizTags 메시지)
+// -----------------------------
+let wizTags = [];
+
+function handleWizTags(msg) {
+  wizTags = msg.items || [];
+}
+
+// pug: 줄 맨 앞 / block expansion(`div: `) 뒤, html: `<` 포함해서 교체
+function typedTagAt(language, lineText, column) {
+  const before = lineText.slice(0, column - 1);
+  if (language === "html") return /<[\w-]*$/.exec(before)?.[0] ?? null;
+  const m = /(?:^\s*|:\s+)([\w-]*)$/.exec(before);
+  return m ? m[1] : null;
+}
+
+let __COMPLETIONS_BOUND__ = false;
+function bindWizTagCompletions() {
+  if (__COMPLETIONS_BOUND__) return;
+  __COMPLETIONS_BOUND__ = true;
+
+  for (const language of ["pug", "html"]) {
+    monaco.languages.registerCompletionItemProvider(language, {
+      triggerCharacters: language === "html" ? ["<"] : [],
+      provideCompletionItems(model, position) {
+        const typed = typedTagAt(
+          language,
+          model.getLineContent(position.lineNumber),
+          position.column
+        );
+        if (typed === null) return { suggestions: [] };
+
+        const range = new monaco.Range(
+          position.lineNumber,
+          position.column - typed.length,
+          position.lineNumber,
+          position.column
+        );
+        const prefix = language === "html" ? "<" : "";
+        return {
+          suggestions: wizTags.map((t) => ({
+            label: { label: t.tag, description: t.title || t.mode },
+            kind: monaco.languages.CompletionItemKind.Class,
+            detail: t.id || t.mode,
+            documentation: { value: t.documentation },
+            filterText: prefix + t.tag,
+            insertText: language === "html" ? t.html : t.pug,
+            insertTextRules:
+              monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            range,
+          })),
+        };
+      },
+    });
+  }
+}
+
 // -----------------------------
 // save
 // -----------------------------
@@ -383,18 +578,102 @@ function saveActive() {
   saveKey(activeKey);
 }
 
+function saveAll() {
+  if (!tabs.some((t) => dirtyByKey[t.key])) return;
+  vscode.postMessage({ type: "saveAll" });
+  setStatus("Saving all...");
+}
+
 window.addEventListener(
   "keydown",
   (e) => {
-    const isSave = (e.key === "s" || e.key === "S") && (e.metaKey || e.ctrlKey);
+    const isSave =
+      (e.key === "s" || e.key === "S" || e.code === "KeyS") &&
+      (e.metaKey || e.ctrlKey);
     if (!isSave) return;
     e.preventDefault();
     e.stopPropagation();
-    saveActive();
+    // Ctrl/Cmd+Alt+S: 모든 탭, Ctrl/Cmd+S: 활성 탭
+    if (e.altKey) saveAll();
+    else saveActive();
   },
   true
 );
 
+// -----------------------------
+// merge (디스크 변경 vs 내 편집)
+// -----------------------------
+let mergeState = null; // { key, diffEditor, original, modified }
+
+function openMerge(key, theirs, mine) {
+  ensureEditorReady(() => {
+    closeMerge();
+    if (activeKey !== key) openTab(key);
+
+    const model = ensureModel(key);
+    const language = model.getLanguageId();
+    const original = monaco.editor.createModel(theirs, language);
+    const modified = monaco.editor.createModel(mine, language);
+
+    const diffEditor = monaco.editor.createDiffEditor($mergeEditor, {
+      automaticLayout: true,
+      originalEditable: false,
+      minimap: { enabled: false },
+    });
+    diffEditor.setModel({ original, modified });
+
+    mergeState = { key, diffEditor, original, modified };
+
+    const tab = tabs.find((t) => t.key === key);
+    if ($mergeTitle) {
+      $mergeTitle.textContent = `${tab?.filename ?? key}: on disk (left) ↔ yours (right, editable)`;
+    }
+    if ($merge) $merge.hidden = false;
+    setStatus("Merging...");
+    diffEditor.getModifiedEditor().focus();
+  });
+}
+
+function applyMerge() {
+  if (!mergeState) return;
+
+  const { key, modified } = mergeState;
+  const merged = modified.getValue();
+  closeMerge();
+
+  const model = modelByKey[key];
+  if (!model) return;
+
+  // setValue 대신 edit로 교체 (Ctrl+Z로 병합 전으로 돌아갈 수 있게)
+  model.pushEditOperations(
+    [],
+    [{ range: model.getFullModelRange(), text: merged }],
+    () => null
+  );
+  if (key === activeKey)
+    setStatus(dirtyByKey[key] ? "Merged" : "Merged (same as disk)");
+}
+
+function closeMerge() {
+  if (!mergeState) return;
+
+  mergeState.diffEditor.dispose();
+  mergeState.original.dispose();
+  mergeState.modified.dispose();
+  mergeState = null;
+
+  if ($merge) $merge.hidden = true;
+  window.__WIZ_EDITOR__?.focus();
+}
+
+if ($mergeApply) $mergeApply.onclick = applyMerge;
+if ($mergeCancel) {
+  $mergeCancel.onclick = () => {
+    closeMerge();
+    setStatus("Merge cancelled (your edits kept)");
+  };
+}
+
 // -----------------------------
 // VSCode -> Webview messages
 // -----------------------------
@@ -416,6 +695,12 @@ const messageHandlers = Object.freeze({
   saved: handleSaved,
   deleted: handleDeleted,
   template: handleTemplate,
+  markers: handleMarkers,
+  status: handleStatus,
+  baseline: handleBaseline,
+  merge: handleMerge,
+  wizTags: handleWizTags,
+  saveActive: saveActive,
 });
 
 window.addEventListener("message", onMessage);
@@ -424,14 +709,18 @@ function handleInit(msg) {
   if ($title) $title.textContent = msg.folderName ?? "Wiz Folder";
   tabs = msg.tabs || [];
 
+  // dirtyKeys: backup(hot exit)에서 복구된 편집이 있는 탭
+  const restored = new Set(msg.dirtyKeys || []);
   for (const t of tabs) {
-    dirtyByKey[t.key] = false;
+    dirtyByKey[t.key] = restored.has(t.key);
     baselineByKey[t.key] = null;
   }
 
   renderTabs();
-  ensureEditorReady(() => {
+  ensureEditorReady((editor) => {
     bindExternalDrop();
+    bindGoToDefinition(editor);
+    bindWizTagCompletions();
   });
 }
 
@@ -442,25 +731,42 @@ function handleOpenTab(msg) {
 function handleContent(msg) {
   const key = msg.key;
   const incoming = msg.text ?? "";
+  // edited: 저장 안 된 편집 내용 (backup 복구 등), force: read/revert 응답
+  const edited = msg.edited ?? null;
   const missing = !!msg.missing;
 
   ensureEditorReady((editor) => {
     const model = ensureModel(key);
 
-    if (dirtyByKey[key]) {
+    if (dirtyByKey[key] && !msg.force) {
+      // 디스크 내용이 편집 내용과 같아짐 -> 기준만 바꿔 dirty 해제
+      if (model.getValue() === incoming) {
+        baselineByKey[key] = incoming;
+        dirtyByKey[key] = false;
+        renderTabs();
+        if (key === activeKey) setStatus("Loaded");
+        return;
+      }
       if (key === activeKey) setStatus("Modified (incoming ignored)");
       return;
     }
 
-    model.setValue(incoming);
+    // baseline 먼저: setValue가 onDidChangeContent에서 dirty 계산
     baselineByKey[key] = incoming;
-    dirtyByKey[key] = false;
+    model.setValue(edited ?? incoming);
+    dirtyByKey[key] = model.getValue() !== incoming;
 
     if (key === activeKey) {
       editor.setModel(model);
       setLanguageByKeySafe(key);
       updateHintForKey(key);
-      setStatus(missing ? "File missing (will be created on Save)" : "Loaded");
+      setStatus(
+        dirtyByKey[key]
+          ? "Restored unsaved changes"
+          : missing
+            ? "File missing (will be created on Save)"
+            : "Loaded"
+      );
     }
 
     renderTabs();
@@ -474,14 +780,33 @@ function handleSaved(msg) {
     const model = modelByKey[key];
     if (!model) return;
 
-    baselineByKey[key] = model.getValue();
-    dirtyByKey[key] = false;
+    // 저장 이후에 더 편집했을 수 있으므로 저장된 text 기준으로 비교
+    baselineByKey[key] = msg.text ?? model.getValue();
+    dirtyByKey[key] = model.getValue() !== baselineByKey[key];
 
     renderTabs();
     if (key === activeKey) setStatus("Saved");
   });
 }
 
+// 디스크 내용이 바뀜 (편집 중인 탭): 편집은 그대로, dirty 기준만 교체
+function handleBaseline(msg) {
+  const key = msg.key;
+  const model = modelByKey[key];
+  // 아직 안 읽은 탭은 read 응답이 최신 상태를 가져옴
+  if (!model || baselineByKey[key] === null) return;
+
+  baselineByKey[key] = msg.text ?? "";
+  dirtyByKey[key] = model.getValue() !== baselineByKey[key];
+
+  renderTabs();
+  if (key === activeKey) setStatus("Changed on disk");
+}
+
+function handleMerge(msg) {
+  openMerge(msg.key, msg.theirs ?? "", msg.mine ?? "");
+}
+
 function handleDeleted(msg) {
   const key = msg.key;
   if (!key) return;
@@ -510,13 +835,39 @@ function handleTemplate(msg) {
       return;
     }
 
-    if (activeKey !== "pug") openTab("pug");
-    insertAtPosition(text, lastDropPosition || editor.getPosition());
+    if (!isTemplateTab(activeKey)) openTab("pug");
+    const pos = lastDropPosition || editor.getPosition();
+    if (msg.snippet) insertSnippetAtPosition(msg.snippet, pos);
+    else insertAtPosition(text, pos);
     lastDropPosition = null;
     setStatus("Template inserted");
   });
 }
 
+function handleStatus(msg) {
+  setStatus(msg.text ?? "");
+}
+
+function handleMarkers(msg) {
+  const key = msg.key;
+  if (!key) return;
+
+  ensureEditorReady(() => {
+    const model = ensureModel(key);
+    const severityMap = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+    };
+
+    const markers = (msg.markers || []).map((m) => ({
+      ...m,
+      severity: severityMap[m.severity] ?? monaco.MarkerSeverity.Info,
+      source: "season-editor",
+    }));
+    monaco.editor.setModelMarkers(model, "season-editor", markers);
+  });
+}
+
 // optional
 if (window.__WIZ_EDITOR_READY__) {
   console.log("[wiz] app.js sees editor already ready");
@@ -72,20 +72,11 @@ console.log("[wiz] monaco bootstrap start");
 
     window.__WIZ_EDITOR__ = editor;
 
-    window.__WIZ_SET_LANG__ = function setLanguageByKey(key) {
+    window.__WIZ_SET_LANG__ = function setLanguage(language) {
       const model = editor.getModel();
       if (!model) return;
 
-      const map = {
-        pug: "pug",
-        ts: "typescript",
-        scss: "scss",
-        html: "html",
-        api: "python",
-        socket: "python",
-        info: "json",
-      };
-      monaco.editor.setModelLanguage(model, map[key] || "plaintext");
+      monaco.editor.setModelLanguage(model, language || "plaintext");
     };
 
     window.__WIZ_EDITOR_READY__ = true;
@@ -11,39 +11,338 @@ import {
   buildTemplate,
   sanitizeForWebview,
 } from "./lib/wiz-utils";
-
-type FsOp =
-  | { type: "createFile"; uri: vscode.Uri; contents?: Uint8Array }
-  | { type: "deleteFile"; uri: vscode.Uri; contents: Uint8Array }
-  | { type: "rename"; from: vscode.Uri; to: vscode.Uri }
-  | { type: "mkdir"; uri: vscode.Uri }
-  | { type: "rmdir"; uri: vscode.Uri; snapshot: DirSnapshot }
-  | { type: "batch"; ops: FsOp[] };
-
-type DirSnapshot = {
-  // 복구 순서 보장 위해 dirs/files 분리
-  dirs: string[]; // folder root 기준 상대경로들 ("" 포함 가능)
-  files: Array<{ rel: string; contents: Uint8Array }>;
-};
-
-const undoStack: FsOp[] = [];
-const redoStack: FsOp[] = [];
+import {
+  AppJsonIssue,
+  validateAppJson,
+  offsetToLineCol,
+  findJsonValueRange,
+  updateAppJsonIdentity,
+} from "./lib/app-json";
+import {
+  TemplateUsage,
+  templateTagName,
+  findTemplateUsages,
+  replaceTemplateUsages,
+  tagAtPosition,
+  templateTagsForAppJson,
+  findWizFolderForTag,
+} from "./lib/template-usages";
+import {
+  DirSnapshot,
+  FsOpOf,
+  HistoryEntry,
+  Payload,
+  SerializedEntry,
+  collectBlobIds,
+  collectOpUris,
+  describeOp,
+  deserializeEntry,
+  forEachPayload,
+  inlinePayloadBytes,
+  isBlobRef,
+  mapOpPayloads,
+  pruneHistory,
+  serializeEntry,
+} from "./lib/fs-history";
+import { WizTab, resolveTabs, resolveWizFolderMarkers } from "./lib/wiz-tabs";
+import { renderScaffold, scaffoldAppJson, scaffoldVars } from "./lib/scaffold";
+import {
+  BulkRenameRule,
+  commonPrefix,
+  computeBulkRename,
+} from "./lib/bulk-rename";
+import {
+  WizIndex,
+  WizIndexEntry,
+  isSameOrInsidePath,
+  toWizIndexEntry,
+} from "./lib/wiz-index";
+import { searchWizPages, wizPageLabel } from "./lib/wiz-search";
+import { wizFolderDecoration } from "./lib/wiz-decorations";
+import { findIdentityConflict, findWizDuplicates } from "./lib/wiz-duplicates";
+import { WizTagCompletion, wizTagCompletions } from "./lib/wiz-completions";
+import {
+  NgMembers,
+  TemplateSyntax,
+  buildTemplateSnippet,
+  ngDriftIssues,
+  parseNgMembers,
+  syncNgAppJson,
+} from "./lib/ng-component";
+
+type FsOp = FsOpOf<vscode.Uri>;
+type FsHistoryEntry = HistoryEntry<vscode.Uri>;
+
+const undoStack: FsHistoryEntry[] = [];
+const redoStack: FsHistoryEntry[] = [];
+
+// activate에서 생성 (워크스페이스별 저장)
+let historyStore: HistoryStore | undefined;
+// activate에서 생성 (Wiz Explorer 트리 등이 공유)
+let wizIndex: WizIndexService | undefined;
+
+// undo/redo stack 변경 알림 (Undo History view)
+const historyChangedEmitter = new vscode.EventEmitter<void>();
+
+function notifyHistoryChanged() {
+  historyStore?.scheduleSave();
+  historyChangedEmitter.fire();
+}
 
 function pushOp(op: FsOp) {
-  undoStack.push(op);
+  undoStack.push({ op, at: Date.now() });
   redoStack.length = 0;
+  notifyHistoryChanged();
+  wizIndex?.touch(collectOpUris(op));
+}
+
+async function readPayload(p: Payload): Promise<Uint8Array> {
+  if (!isBlobRef(p)) return p;
+  if (!historyStore) throw new Error(`History blob not available: ${p.blob}`);
+  return historyStore.readBlob(p.blob);
+}
+
+const HISTORY_STATE_KEY = "seasonExplorer.history";
+// 기록 하나의 내용 합계가 이보다 크면(삭제된 파일, 폴더 snapshot 등) storage 파일로 내보냄
+const HISTORY_SPILL_BYTES = 8 * 1024;
+
+type SavedHistory = { undo: SerializedEntry[]; redo: SerializedEntry[] };
+
+/**
+ * undo/redo 기록을 workspaceState + storageUri/history/* 에 저장
+ * - reload / extension host 재시작 후에도 복구
+ * - seasonEditor.history.maxEntries / maxAgeDays 로 정리
+ */
+class HistoryStore {
+  private saveTimer: NodeJS.Timeout | undefined;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly context: vscode.ExtensionContext) {}
+
+  private get blobDir(): vscode.Uri | undefined {
+    const root = this.context.storageUri;
+    return root ? vscode.Uri.joinPath(root, "history") : undefined;
+  }
+
+  async load() {
+    const saved =
+      this.context.workspaceState.get<SavedHistory>(HISTORY_STATE_KEY);
+    if (!saved) return;
+
+    const parse = (s: string) => vscode.Uri.parse(s);
+    const undo = (saved.undo ?? []).map((e) => deserializeEntry(e, parse));
+    const redo = (saved.redo ?? []).map((e) => deserializeEntry(e, parse));
+
+    // 로딩 전에 새 작업이 기록됐으면 저장돼 있던 redo는 이미 무효
+    if (undoStack.length === 0 && redoStack.length === 0) {
+      redoStack.push(...redo);
+    }
+    undoStack.unshift(...undo);
+
+    this.prune();
+    historyChangedEmitter.fire();
+  }
+
+  scheduleSave() {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.enqueueSave();
+    }, 300);
+  }
+
+  async flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.enqueueSave();
+    }
+    await this.saving;
+  }
+
+  async readBlob(id: string): Promise<Uint8Array> {
+    const dir = this.blobDir;
+    if (!dir) throw new Error(`History blob not available: ${id}`);
+    return vscode.workspace.fs.readFile(vscode.Uri.joinPath(dir, id));
+  }
+
+  private enqueueSave() {
+    this.saving = this.saving
+      .then(() => this.save())
+      .catch((e) => console.error("[history] save failed", e));
+  }
+
+  private prune() {
+    const { history } = getSeasonConfig();
+    const limits = {
+      maxEntries: history.maxEntries,
+      maxAgeMs: history.maxAgeDays * 24 * 60 * 60 * 1000,
+      now: Date.now(),
+    };
+    undoStack.splice(0, undoStack.length, ...pruneHistory(undoStack, limits));
+    redoStack.splice(0, redoStack.length, ...pruneHistory(redoStack, limits));
+  }
+
+  private async save() {
+    const before = undoStack.length + redoStack.length;
+    this.prune();
+    if (undoStack.length + redoStack.length !== before) {
+      historyChangedEmitter.fire();
+    }
+
+    await this.spill(undoStack);
+    await this.spill(redoStack);
+
+    const toText = (u: vscode.Uri) => u.toString();
+    const saved: SavedHistory = {
+      undo: undoStack.map((e) => serializeEntry(e, toText)),
+      redo: redoStack.map((e) => serializeEntry(e, toText)),
+    };
+    await this.context.workspaceState.update(HISTORY_STATE_KEY, saved);
+
+    await this.collectGarbage();
+  }
+
+  // 큰 기록 -> payload 전부 blob 파일, 메모리에는 참조만 남김
+  // (작은 파일 여러 개로 된 폴더 snapshot도 합계로 판단)
+  private async spill(entries: FsHistoryEntry[]) {
+    const dir = this.blobDir;
+    if (!dir) return;
+
+    for (const entry of entries) {
+      if (inlinePayloadBytes(entry.op) < HISTORY_SPILL_BYTES) continue;
+
+      const inline: Uint8Array[] = [];
+      forEachPayload(entry.op, (p) => {
+        if (!isBlobRef(p)) inline.push(p);
+      });
+
+      await vscode.workspace.fs.createDirectory(dir);
+
+      const ids = new Map<Uint8Array, string>();
+      for (const data of inline) {
+        const id = crypto.randomBytes(16).toString("hex");
+        await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(dir, id), data);
+        ids.set(data, id);
+      }
+
+      entry.op = mapOpPayloads(entry.op, (p) => {
+        const id = isBlobRef(p) ? undefined : ids.get(p);
+        return id ? { blob: id } : p;
+      });
+    }
+  }
+
+  // 어떤 기록에서도 참조하지 않는 blob 삭제
+  private async collectGarbage() {
+    const dir = this.blobDir;
+    if (!dir) return;
+
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(dir);
+    } catch {
+      return;
+    }
+
+    const used = collectBlobIds([...undoStack, ...redoStack]);
+    for (const [name] of entries) {
+      if (used.has(name)) continue;
+      try {
+        await vscode.workspace.fs.delete(vscode.Uri.joinPath(dir, name));
+      } catch {}
+    }
+  }
+}
+
+function removeEntry(stack: FsHistoryEntry[], entry: FsHistoryEntry) {
+  const idx = stack.lastIndexOf(entry);
+  if (idx !== -1) stack.splice(idx, 1);
+}
+
+async function undoOp(op: FsOp): Promise<void> {
+  switch (op.type) {
+    case "createFile":
+      await vscode.workspace.fs.delete(op.uri, { recursive: false });
+      break;
+
+    case "deleteFile":
+      try {
+        await vscode.workspace.fs.createDirectory(
+          vscode.Uri.file(path.dirname(op.uri.fsPath))
+        );
+        await vscode.workspace.fs.writeFile(
+          op.uri,
+          await readPayload(op.contents)
+        );
+      } catch (e) {
+        console.error("[undo deleteFile] failed", op.uri.fsPath, e);
+        vscode.window.showErrorMessage(`Undo restore failed: ${op.uri.fsPath}`);
+      }
+      break;
+
+    case "writeFile":
+      await vscode.workspace.fs.writeFile(op.uri, await readPayload(op.before));
+      break;
+
+    case "rename":
+      await vscode.workspace.fs.rename(op.to, op.from, { overwrite: false });
+      break;
+
+    case "mkdir":
+      await vscode.workspace.fs.delete(op.uri, { recursive: true });
+      break;
+
+    case "rmdir":
+      await restoreDir(op.uri, op.snapshot);
+      break;
+
+    case "batch":
+      // ✅ undo는 역순으로 되돌리기
+      for (let i = op.ops.length - 1; i >= 0; i--) {
+        await undoOp(op.ops[i]);
+      }
+      break;
+  }
 }
 
-// wiz “폴더=문서”에 포함되는 파일들(네 스샷 기준 + socket.py)
-const WIZ_FILES = [
-  { key: "info", label: "Info", filename: "app.json" },
-  { key: "pug", label: "Pug", filename: "view.pug" },
-  { key: "ts", label: "Component", filename: "view.ts" },
-  { key: "scss", label: "SCSS", filename: "view.scss" },
-  { key: "html", label: "HTML", filename: "view.html" },
-  { key: "api", label: "API", filename: "api.py" },
-  { key: "socket", label: "Socket", filename: "socket.py" },
-];
+async function redoOp(op: FsOp): Promise<void> {
+  switch (op.type) {
+    case "createFile":
+      await vscode.workspace.fs.writeFile(
+        op.uri,
+        op.contents ? await readPayload(op.contents) : new Uint8Array()
+      );
+      break;
+
+    case "deleteFile":
+      await vscode.workspace.fs.delete(op.uri, { recursive: false });
+      break;
+
+    case "writeFile":
+      await vscode.workspace.fs.writeFile(op.uri, await readPayload(op.after));
+      break;
+
+    case "rename":
+      await vscode.workspace.fs.rename(op.from, op.to, { overwrite: false });
+      break;
+
+    case "mkdir":
+      await vscode.workspace.fs.createDirectory(op.uri);
+      break;
+
+    case "rmdir":
+      await vscode.workspace.fs.delete(op.uri, { recursive: true });
+      break;
+
+    case "batch":
+      // ✅ redo는 정순으로 다시 적용
+      for (const inner of op.ops) {
+        await redoOp(inner);
+      }
+      break;
+  }
+}
 
 function getSeasonConfig() {
   const cfg = vscode.workspace.getConfiguration("seasonEditor");
@@ -58,7 +357,40 @@ function getSeasonConfig() {
   // settings.json 직접 수정 같은 케이스 방어
   const defaultModes = defaultModesRaw.filter(isWizMode);
 
-  return { defaultModes };
+  const history = {
+    maxEntries: Math.max(0, cfg.get<number>("history.maxEntries", 100)),
+    maxAgeDays: Math.max(0, cfg.get<number>("history.maxAgeDays", 7)),
+  };
+
+  // Wiz Folder Editor 탭 (mode별 계산은 resolveTabs)
+  const tabs = cfg.get<unknown>("tabs", []);
+  const tabsByMode = cfg.get<unknown>("tabsByMode", {});
+
+  const wizFolderMarkers = resolveWizFolderMarkers(
+    cfg.get<unknown>("wizFolderMarkers")
+  );
+
+  // New Wiz Page scaffold 위치 (workspace 기준, 하위에 <mode>/)
+  const scaffoldDir =
+    cfg.get<string>("scaffoldDir", ".season/templates").trim() ||
+    ".season/templates";
+
+  // "Wiz (by mode)"에서 mode 아래를 app.json category로 한 번 더 묶을지
+  const groupByCategory = cfg.get<boolean>("groupByCategory", false);
+
+  // view.ts 저장 시 app.json ng.selector / inputs / outputs 자동 갱신
+  const syncNgOnSave = cfg.get<boolean>("syncNgOnSave", true);
+
+  return {
+    defaultModes,
+    history,
+    tabs,
+    tabsByMode,
+    wizFolderMarkers,
+    scaffoldDir,
+    groupByCategory,
+    syncNgOnSave,
+  };
 }
 
 async function promptMode(): Promise<WizMode | undefined> {
@@ -91,7 +423,7 @@ function buildAppJson(
       category: "",
       controller: "",
       "ng.build": { id: "", name: "", path: "" },
-      ng: { selector: "", inputs: [], outputs: [] },
+      ng: { selector: templateTagName(template), inputs: [], outputs: [] },
       template,
     },
     null,
@@ -142,12 +474,8 @@ async function isWizFolder(folderUri: vscode.Uri): Promise<boolean> {
   try {
     const entries = await vscode.workspace.fs.readDirectory(folderUri);
     const names = new Set(entries.map(([name]) => name));
-    return (
-      names.has("view.pug") ||
-      names.has("view.ts") ||
-      names.has("api.py") ||
-      names.has("socket.py")
-    );
+    const { wizFolderMarkers } = getSeasonConfig();
+    return wizFolderMarkers.some((m) => names.has(m));
   } catch {
     return false;
   }
@@ -157,11 +485,10 @@ function isSkippableDir(name: string) {
   return name === "node_modules" || name === ".git" || name.startsWith(".");
 }
 function relPath(root: vscode.Uri, u: vscode.Uri) {
-  const r = root.fsPath;
-  const p = u.fsPath;
-  return p.startsWith(r)
-    ? p.slice(r.length).replace(/^[/\\]/, "")
-    : path.basename(p);
+  // root 밖(다른 workspace folder 등)이면 이름만
+  return isSameOrInsidePath(u.fsPath, root.fsPath)
+    ? path.relative(root.fsPath, u.fsPath)
+    : path.basename(u.fsPath);
 }
 
 async function snapshotDir(root: vscode.Uri): Promise<DirSnapshot> {
@@ -196,7 +523,7 @@ async function restoreDir(root: vscode.Uri, snap: DirSnapshot) {
   // 2) files
   for (const f of snap.files) {
     const u = vscode.Uri.joinPath(root, f.rel);
-    await vscode.workspace.fs.writeFile(u, f.contents);
+    await vscode.workspace.fs.writeFile(u, await readPayload(f.contents));
   }
 }
 
@@ -283,13 +610,17 @@ type NodeKind =
   | "file"
   | "wizFolder"
   | "wizModeRoot"
-  | "modeGroup";
+  | "modeGroup"
+  | "categoryGroup";
 
 class FsNodeItem extends vscode.TreeItem {
   public readonly uri?: vscode.Uri;
   public readonly kind: NodeKind;
   public readonly parent?: vscode.Uri;
   public readonly modeKey?: string;
+  public readonly category?: string;
+  // "Wiz (by mode)" 아래 노드 (parent 아래 전체 트리 기준)
+  public readonly byMode: boolean;
 
   constructor(
     args:
@@ -297,9 +628,21 @@ class FsNodeItem extends vscode.TreeItem {
           kind: "workspace" | "folder" | "file" | "wizFolder";
           uri: vscode.Uri;
           parent?: vscode.Uri;
+          byMode?: boolean;
         }
       | { kind: "wizModeRoot"; parent: vscode.Uri } // ✅ 추가
-      | { kind: "modeGroup"; parent: vscode.Uri; modeKey: string }
+      | {
+          kind: "modeGroup";
+          parent: vscode.Uri;
+          modeKey: string;
+          byMode?: boolean;
+        }
+      | {
+          kind: "categoryGroup";
+          parent: vscode.Uri;
+          modeKey: string;
+          category: string;
+        }
   ) {
     const { kind } = args;
 
@@ -308,19 +651,38 @@ class FsNodeItem extends vscode.TreeItem {
         ? "Wiz (by mode)"
         : kind === "modeGroup"
           ? args.modeKey
-          : path.basename(args.uri.fsPath);
+          : kind === "categoryGroup"
+            ? args.category
+            : path.basename(args.uri.fsPath);
 
     super(
       label,
       kind === "workspace" ||
         kind === "folder" ||
         kind === "wizModeRoot" ||
-        kind === "modeGroup"
+        kind === "modeGroup" ||
+        kind === "categoryGroup"
         ? vscode.TreeItemCollapsibleState.Collapsed
         : vscode.TreeItemCollapsibleState.None
     );
 
     this.kind = kind;
+    this.byMode =
+      kind === "wizModeRoot" ||
+      kind === "categoryGroup" ||
+      ("byMode" in args && !!args.byMode);
+
+    // 부분 refresh 후에도 펼침/선택 상태 유지
+    // (같은 wiz 폴더가 일반 트리와 "Wiz (by mode)"에 둘 다 나오므로 구분)
+    const scope = this.byMode ? "byMode:" : "";
+    this.id =
+      kind === "wizModeRoot"
+        ? `${kind}:${args.parent.toString()}`
+        : kind === "modeGroup"
+          ? `${scope}${kind}:${args.parent.toString()}:${args.modeKey}`
+          : kind === "categoryGroup"
+            ? `${kind}:${args.parent.toString()}:${args.modeKey}:${args.category}`
+            : `${scope}${kind}:${args.uri.toString()}`;
 
     if (kind === "wizModeRoot") {
       this.parent = args.parent;
@@ -333,12 +695,23 @@ class FsNodeItem extends vscode.TreeItem {
     if (kind === "modeGroup") {
       this.parent = args.parent;
       this.modeKey = args.modeKey;
-      this.contextValue = "modeGroup";
+      // by-mode 그룹은 실제 폴더가 아니라 New Wiz Page 등 대상에서 제외
+      this.contextValue = this.byMode ? "wizModeGroup" : "modeGroup";
       this.iconPath = new vscode.ThemeIcon("folder");
       this.tooltip = `mode: ${args.modeKey}`;
       return;
     }
 
+    if (kind === "categoryGroup") {
+      this.parent = args.parent;
+      this.modeKey = args.modeKey;
+      this.category = args.category;
+      this.contextValue = "categoryGroup";
+      this.iconPath = new vscode.ThemeIcon("symbol-folder");
+      this.tooltip = `mode: ${args.modeKey}, category: ${args.category}`;
+      return;
+    }
+
     // 여기부터는 uri가 무조건 있음
     this.uri = args.uri;
     this.parent = args.parent;
@@ -380,66 +753,461 @@ class FsNodeItem extends vscode.TreeItem {
   }
 }
 
-async function listDirectWizFolders(dir: vscode.Uri): Promise<vscode.Uri[]> {
-  let entries: [string, vscode.FileType][] = [];
+async function readAppJson(wizFolder: vscode.Uri): Promise<any | null> {
+  const buf = await readFileSafe(vscode.Uri.joinPath(wizFolder, "app.json"));
+  if (!buf) return null;
   try {
-    entries = await vscode.workspace.fs.readDirectory(dir);
+    return JSON.parse(Buffer.from(buf).toString("utf8"));
   } catch {
-    return [];
+    return null;
   }
+}
 
-  const out: vscode.Uri[] = [];
-  for (const [name, type] of entries) {
-    if (type !== vscode.FileType.Directory) continue;
-    if (isSkippableDir(name)) continue;
+async function getTemplateFromWizFolder(wizFolderUri: vscode.Uri) {
+  const json = await readAppJson(wizFolderUri);
+  if (!json) return { text: "", missing: true };
 
-    const u = vscode.Uri.joinPath(dir, name);
-    if (await isWizFolder(u)) out.push(u);
-  }
-  return out;
-}
+  const t = json?.template ?? json?.Template ?? json?.TEMPLATE;
+  if (t == null) return { text: "", missing: true };
 
-async function findDirectWizFolders(dir: vscode.Uri): Promise<vscode.Uri[]> {
-  let entries: [string, vscode.FileType][];
+  // ✅ 여기서 "template 문자열"만 보낸다 (ng: 드롭 snippet의 inputs/outputs)
+  if (typeof t === "string") return { text: t, missing: false, ng: json.ng };
+
+  // template이 객체/배열이면 stringify (혹시 모를 케이스)
   try {
-    entries = await vscode.workspace.fs.readDirectory(dir);
+    return { text: JSON.stringify(t, null, 2), missing: false };
   } catch {
-    return [];
+    return { text: String(t), missing: false };
   }
+}
 
-  const out: vscode.Uri[] = [];
-  for (const [name, type] of entries) {
-    if (type !== vscode.FileType.Directory) continue;
-    if (isSkippableDir(name)) continue;
+// ---- app.json 검증 ----
+function toDiagnostics(text: string, issues: AppJsonIssue[]) {
+  return issues.map((issue) => {
+    const s = offsetToLineCol(text, issue.start);
+    const e = offsetToLineCol(text, issue.end);
+    const d = new vscode.Diagnostic(
+      new vscode.Range(s.line, s.character, e.line, e.character),
+      issue.message,
+      issue.severity === "warning"
+        ? vscode.DiagnosticSeverity.Warning
+        : vscode.DiagnosticSeverity.Error
+    );
+    d.source = "season-editor";
+    return d;
+  });
+}
+
+// webview(Monaco)용 marker: 1 기반 line/column
+function toMonacoMarkers(text: string, issues: AppJsonIssue[]) {
+  return issues.map((issue) => {
+    const s = offsetToLineCol(text, issue.start);
+    const e = offsetToLineCol(text, issue.end);
+    return {
+      startLineNumber: s.line + 1,
+      startColumn: s.character + 1,
+      endLineNumber: e.line + 1,
+      endColumn: e.character + 1,
+      severity: issue.severity,
+      message: issue.message,
+    };
+  });
+}
+
+async function validateAppJsonFile(
+  collection: vscode.DiagnosticCollection,
+  appJsonUri: vscode.Uri,
+  text?: string
+) {
+  if (path.basename(appJsonUri.fsPath) !== "app.json") return;
 
-    const u = vscode.Uri.joinPath(dir, name);
-    if (await isWizFolder(u)) out.push(u);
+  const wizFolder = parentDirUri(appJsonUri);
+  if (!(await isWizFolder(wizFolder))) {
+    collection.delete(appJsonUri);
+    return;
   }
-  return out;
+
+  if (text === undefined) {
+    // 열려 있는 문서가 있으면 저장 안 된 내용 기준
+    const doc = vscode.workspace.textDocuments.find(
+      (d) => d.uri.toString() === appJsonUri.toString()
+    );
+    if (doc) {
+      text = doc.getText();
+    } else {
+      const buf = await readFileSafe(appJsonUri);
+      if (!buf) {
+        collection.delete(appJsonUri);
+        return;
+      }
+      text = Buffer.from(buf).toString("utf8");
+    }
+  }
+
+  const issues = validateAppJson(text, path.dirname(wizFolder.fsPath));
+  const members = await readNgMembers(wizFolder);
+  if (members) issues.push(...ngDriftIssues(text, members));
+  collection.set(appJsonUri, toDiagnostics(text, issues));
+}
+
+// 열려 있는 텍스트 문서가 있으면 그 내용, 아니면 디스크
+async function readTextPreferOpen(uri: vscode.Uri): Promise<string | null> {
+  const doc = vscode.workspace.textDocuments.find(
+    (d) => d.uri.toString() === uri.toString()
+  );
+  return doc ? doc.getText() : readTextSafe(uri);
+}
+
+// wiz 폴더 view.ts의 @Input/@Output, input()/output() (view.ts나 Component가 없으면 null)
+async function readNgMembers(wizFolder: vscode.Uri): Promise<NgMembers | null> {
+  const text = await readTextPreferOpen(
+    vscode.Uri.joinPath(wizFolder, "view.ts")
+  );
+  return text === null ? null : parseNgMembers(text);
 }
 
-async function readModeFromAppJson(wizFolder: vscode.Uri): Promise<string> {
+/**
+ * view.ts 저장 -> app.json ng 갱신 (seasonEditor.syncNgOnSave)
+ * - app.json을 편집 중이면(텍스트 편집기 / Wiz 편집기) 덮어쓰지 않고 drift 경고만
+ * - 파생 데이터라 Undo 기록은 남기지 않음
+ */
+async function syncNgFields(
+  editor: WizFolderEditorProvider,
+  wizFolder: vscode.Uri,
+  viewTs: string
+) {
+  if (!getSeasonConfig().syncNgOnSave) return;
+
+  const members = parseNgMembers(viewTs);
+  if (!members) return;
+
   const appJsonUri = vscode.Uri.joinPath(wizFolder, "app.json");
-  const buf = await readFileSafe(appJsonUri);
-  if (!buf) return "unknown";
+  const doc = vscode.workspace.textDocuments.find(
+    (d) => d.uri.toString() === appJsonUri.toString()
+  );
+  if (doc?.isDirty || editor.isFileDirty(wizFolder, "app.json")) return;
 
-  try {
-    const text = Buffer.from(buf).toString("utf8");
-    const json = JSON.parse(text);
-    const mode = json?.mode ?? json?.Mode ?? json?.MODE;
-    const s = String(mode ?? "unknown").trim();
-    return s || "unknown";
-  } catch {
-    return "unknown";
+  const text = await readTextSafe(appJsonUri);
+  if (text === null) return;
+
+  const next = syncNgAppJson(text, members);
+  if (next === null) return;
+  await vscode.workspace.fs.writeFile(appJsonUri, Buffer.from(next, "utf8"));
+}
+
+// ---- Wiz 폴더 인덱스 ----
+// touch: 우리 쪽 작업(pushOp/undo/redo)이 건드린 경로 (있으면 create, 없으면 delete로 처리)
+type WizIndexEventKind = "create" | "change" | "delete" | "touch";
+
+// dirs: 목록이 바뀐 폴더, folders: 추가/삭제/메타가 바뀐 wiz 폴더
+type WizIndexChange = { dirs: string[]; folders: string[] };
+
+// 트리에 보이는 경로인지 (워크스페이스 안 + node_modules/.* 폴더 아래 아님)
+function isExplorerPath(fsPath: string): boolean {
+  const ws = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+  if (!ws) return false;
+  const rel = path.relative(ws.uri.fsPath, fsPath);
+  return !rel.split(/[/\\]/).some((seg) => seg && isSkippableDir(seg));
+}
+
+// 워크스페이스 루트 자체는 트리에서 wiz 폴더로 보이지 않음
+function isIndexablePath(fsPath: string): boolean {
+  const ws = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fsPath));
+  return !!ws && ws.uri.fsPath !== fsPath && isExplorerPath(fsPath);
+}
+
+/**
+ * Wiz 폴더 + app.json 메타 인덱스
+ * - 처음 1회 marker 파일 검색으로 채우고, 이후엔 watcher 이벤트로 바뀐 폴더만 다시 확인
+ * - 이벤트는 모아서(debounce) 처리, onDidChange로 바뀐 위치 전달 (undefined = 전체)
+ */
+class WizIndexService implements vscode.Disposable {
+  readonly index = new WizIndex();
+
+  private ready: Promise<void> | undefined;
+  private scanned = false; // 전체 스캔이 끝나 index를 바로 써도 되는지
+  private readonly pending = new Map<string, WizIndexEventKind>();
+  private flushTimer: NodeJS.Timeout | undefined;
+  private flushing: Promise<void> = Promise.resolve();
+
+  private readonly _onDidChange = new vscode.EventEmitter<
+    WizIndexChange | undefined
+  >();
+  readonly onDidChange = this._onDidChange.event;
+
+  whenReady(): Promise<void> {
+    return this.ready ?? this.rebuild();
+  }
+
+  get isReady() {
+    return this.scanned;
+  }
+
+  rebuild(): Promise<void> {
+    this.pending.clear();
+    this.scanned = false;
+    this.ready = this.scanAll()
+      .catch((e) => console.error("[wiz-index] scan failed", e))
+      .then(() => {
+        this.scanned = true;
+        this._onDidChange.fire(undefined);
+      });
+    return this.ready;
+  }
+
+  onFsEvent(kind: WizIndexEventKind, uri: vscode.Uri) {
+    if (uri.scheme !== "file") return;
+    const p = uri.fsPath;
+    if (!isExplorerPath(path.dirname(p))) return;
+
+    // 내용 변경은 app.json / marker 파일만 의미 있음
+    if (kind === "change") {
+      const name = path.basename(p);
+      const { wizFolderMarkers } = getSeasonConfig();
+      if (name !== "app.json" && !wizFolderMarkers.includes(name)) return;
+    }
+
+    // create 뒤 change는 create 유지 (목록 갱신 필요)
+    const prev = this.pending.get(p);
+    this.pending.set(p, prev === "create" && kind === "change" ? prev : kind);
+
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => this.flushNow(), 150);
+  }
+
+  touch(uris: vscode.Uri[]) {
+    for (const u of uris) this.onFsEvent("touch", u);
+  }
+
+  // 쌓인 이벤트를 바로 반영 (명시적 전체 refresh 전에)
+  settle(): Promise<void> {
+    if (this.flushTimer) this.flushNow();
+    return this.flushing;
+  }
+
+  dispose() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this._onDidChange.dispose();
+  }
+
+  private flushNow() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.flushing = this.flushing
+      .then(() => this.flush())
+      .catch((e) => console.error("[wiz-index] update failed", e));
+  }
+
+  private async scanAll() {
+    const found = await this.findWizFolders();
+    this.index.clear();
+    for (const dir of found) await this.indexFolder(dir);
+  }
+
+  // marker 파일 위치 -> wiz 폴더 fsPath (base 주면 그 아래만)
+  private async findWizFolders(base?: vscode.Uri): Promise<string[]> {
+    const { wizFolderMarkers } = getSeasonConfig();
+    const glob =
+      wizFolderMarkers.length === 1
+        ? `**/${wizFolderMarkers[0]}`
+        : `**/{${wizFolderMarkers.join(",")}}`;
+    const uris = await vscode.workspace.findFiles(
+      base ? new vscode.RelativePattern(base, glob) : glob,
+      "**/node_modules/**"
+    );
+    const dirs = new Set(uris.map((u) => path.dirname(u.fsPath)));
+    return [...dirs].filter(isIndexablePath);
+  }
+
+  private async indexFolder(dir: string): Promise<boolean> {
+    const text = await readTextSafe(
+      vscode.Uri.file(path.join(dir, "app.json"))
+    );
+    return this.index.set(toWizIndexEntry(dir, text));
+  }
+
+  private async flush() {
+    await this.whenReady();
+    const events = [...this.pending];
+    this.pending.clear();
+    if (!events.length) return;
+
+    const dirty = new Set<string>(); // 다시 그릴 폴더
+    const changedFolders = new Set<string>();
+    const recheck = new Set<string>(); // wiz 여부/메타 다시 볼 폴더
+    const created: string[] = [];
+
+    for (const [p, event] of events) {
+      let kind = event;
+      if (kind === "touch") {
+        kind = (await statSafe(vscode.Uri.file(p))) ? "create" : "delete";
+      }
+
+      const dir = path.dirname(p);
+      if (kind !== "change") dirty.add(dir); // 폴더 목록 자체가 바뀜
+      if (kind === "create") created.push(p);
+      if (kind === "delete") {
+        for (const e of this.index.deleteUnder(p)) {
+          dirty.add(path.dirname(e.fsPath));
+          changedFolders.add(e.fsPath);
+        }
+      }
+      recheck.add(dir); // marker/app.json 변화 -> dir의 wiz 여부/mode
+    }
+
+    // 새로 생긴(옮겨 온) 폴더 아래 wiz 폴더 (상위 폴더가 같이 생겼으면 상위에서 한 번만)
+    const roots = created.filter(
+      (p) => !created.some((q) => q !== p && isSameOrInsidePath(p, q))
+    );
+    for (const p of roots) {
+      const stat = await statSafe(vscode.Uri.file(p));
+      if (!stat || !(stat.type & vscode.FileType.Directory)) continue;
+      recheck.add(p);
+      for (const d of await this.findWizFolders(vscode.Uri.file(p))) {
+        recheck.add(d);
+      }
+    }
+
+    for (const dir of recheck) {
+      if (!isIndexablePath(dir)) continue;
+      const changed = (await isWizFolder(vscode.Uri.file(dir)))
+        ? await this.indexFolder(dir)
+        : !!this.index.delete(dir);
+      if (!changed) continue;
+      dirty.add(path.dirname(dir));
+      changedFolders.add(dir);
+    }
+
+    if (dirty.size || changedFolders.size) {
+      this._onDidChange.fire({
+        dirs: [...dirty],
+        folders: [...changedFolders],
+      });
+    }
+  }
+}
+
+// ---- id / namespace / template 중복 (워크스페이스 전체 app.json) ----
+function jsonFieldRange(text: string, key: string): vscode.Range {
+  const r = findJsonValueRange(text, key);
+  if (!r) return new vscode.Range(0, 0, 0, 0);
+  const s = offsetToLineCol(text, r.start);
+  const e = offsetToLineCol(text, r.end);
+  return new vscode.Range(s.line, s.character, e.line, e.character);
+}
+
+async function updateDuplicateDiagnostics(
+  collection: vscode.DiagnosticCollection,
+  index: WizIndex
+) {
+  const appJsonUri = (fsPath: string) =>
+    vscode.Uri.file(path.join(fsPath, "app.json"));
+
+  // 관련 위치 계산용 (같은 파일 여러 번 읽지 않게)
+  const texts = new Map<string, string>();
+  const textOf = async (fsPath: string) => {
+    let text = texts.get(fsPath);
+    if (text === undefined) {
+      text = (await readTextSafe(appJsonUri(fsPath))) ?? "";
+      texts.set(fsPath, text);
+    }
+    return text;
+  };
+
+  const next: Array<[vscode.Uri, vscode.Diagnostic[]]> = [];
+  for (const [fsPath, dups] of findWizDuplicates(index.all())) {
+    const text = await textOf(fsPath);
+    const diagnostics: vscode.Diagnostic[] = [];
+
+    for (const dup of dups) {
+      const d = new vscode.Diagnostic(
+        jsonFieldRange(text, dup.field),
+        `${dup.field} "${dup.value}"이(가) 다른 Wiz 폴더 ${dup.others.length}곳과 겹칩니다.`,
+        // namespace만 겹치는 건 경고 (id/template은 런타임 충돌)
+        dup.field === "namespace"
+          ? vscode.DiagnosticSeverity.Warning
+          : vscode.DiagnosticSeverity.Error
+      );
+      d.source = "season-editor";
+      d.code = `duplicate-${dup.field}`;
+      d.relatedInformation = [];
+      for (const other of dup.others) {
+        d.relatedInformation.push(
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(
+              appJsonUri(other),
+              jsonFieldRange(await textOf(other), dup.field)
+            ),
+            `같은 ${dup.field}: ${vscode.workspace.asRelativePath(other)}`
+          )
+        );
+      }
+      diagnostics.push(d);
+    }
+
+    next.push([appJsonUri(fsPath), diagnostics]);
   }
+
+  collection.clear();
+  collection.set(next);
 }
 
 class WizExplorerProvider implements vscode.TreeDataProvider<FsNodeItem> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    FsNodeItem | undefined
+  >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
+  // 부분 refresh용: 폴더 fsPath -> 마지막으로 돌려준 노드 (VS Code는 같은 객체로 찾음)
+  private readonly nodesByDir = new Map<string, FsNodeItem>();
+  // 워크스페이스 fsPath -> "Wiz (by mode)" 노드
+  private readonly modeRoots = new Map<string, FsNodeItem>();
+
+  constructor(private readonly wizIndex: WizIndexService) {
+    wizIndex.onDidChange((change) =>
+      change ? this.refreshChanges(change) : this.fireAll()
+    );
+  }
+
   refresh() {
-    this._onDidChangeTreeData.fire();
+    // 방금 한 작업의 인덱스 갱신이 끝난 뒤 다시 그림
+    void this.wizIndex.settle().then(() => this.fireAll());
+  }
+
+  private fireAll() {
+    this.nodesByDir.clear();
+    this.modeRoots.clear();
+    this._onDidChangeTreeData.fire(undefined);
+  }
+
+  // 펼친 적 없는 폴더는 다시 그릴 필요 없음
+  private refreshChanges(change: WizIndexChange) {
+    const nodes = new Set<FsNodeItem>();
+    for (const dir of change.dirs) {
+      const node = this.nodesByDir.get(dir);
+      if (node) nodes.add(node);
+    }
+
+    // "Wiz (by mode)": wiz 폴더가 바뀐 워크스페이스마다 (처음 생기거나 다 없어지면 워크스페이스째)
+    const wsPaths = new Set(
+      change.folders
+        .map((f) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(f)))
+        .filter((ws): ws is vscode.WorkspaceFolder => !!ws)
+        .map((ws) => ws.uri.fsPath)
+    );
+    for (const wsPath of wsPaths) {
+      const root = this.modeRoots.get(wsPath);
+      const hasWiz = this.wizIndex.index.under(wsPath).length > 0;
+      const node = !!root === hasWiz ? root : this.nodesByDir.get(wsPath);
+      if (node) nodes.add(node);
+    }
+
+    for (const node of nodes) this._onDidChangeTreeData.fire(node);
+  }
+
+  private remember(node: FsNodeItem) {
+    if (node.uri) this.nodesByDir.set(node.uri.fsPath, node);
+    return node;
   }
 
   getTreeItem(element: FsNodeItem): vscode.TreeItem {
@@ -450,32 +1218,43 @@ class WizExplorerProvider implements vscode.TreeDataProvider<FsNodeItem> {
     const wss = vscode.workspace.workspaceFolders;
     if (!wss || wss.length === 0) return [];
 
+    // wiz 여부/mode는 인덱스 기준 (디스크 재검색 없음)
+    await this.wizIndex.whenReady();
+    const index = this.wizIndex.index;
+
     // Root: workspace folders
     if (!element) {
-      return wss.map(
-        (ws) => new FsNodeItem({ kind: "workspace", uri: ws.uri })
+      return wss.map((ws) =>
+        this.remember(new FsNodeItem({ kind: "workspace", uri: ws.uri }))
       );
     }
 
+    if (element.kind === "wizModeRoot" && element.parent) {
+      return this.modeRootChildren(element.parent);
+    }
+    if (
+      (element.kind === "modeGroup" && element.byMode) ||
+      element.kind === "categoryGroup"
+    ) {
+      return this.modeGroupChildren(element);
+    }
+
     // modeGroup은 children 가짐
     if (element.kind === "modeGroup") {
       const parentDir = element.parent; // ✅ modeGroup은 parent에 “실제 폴더 uri”가 들어있어야 함
       if (!parentDir) return [];
 
       const mode = element.modeKey ?? "unknown";
-      const wizFolders = await findDirectWizFolders(parentDir);
-
-      const filtered: vscode.Uri[] = [];
-      for (const f of wizFolders) {
-        const m = await readModeFromAppJson(f);
-        if (m === mode) filtered.push(f);
-      }
-
-      filtered.sort((a, b) =>
-        path.basename(a.fsPath).localeCompare(path.basename(b.fsPath))
-      );
-
-      return filtered.map((u) => new FsNodeItem({ kind: "wizFolder", uri: u }));
+      return index
+        .childrenOf(parentDir.fsPath)
+        .filter((e) => e.mode === mode)
+        .map(
+          (e) =>
+            new FsNodeItem({
+              kind: "wizFolder",
+              uri: vscode.Uri.file(e.fsPath),
+            })
+        );
     }
 
     // workspace / folder 만 children
@@ -512,14 +1291,13 @@ class WizExplorerProvider implements vscode.TreeDataProvider<FsNodeItem> {
     const normalFolders: vscode.Uri[] = [];
 
     for (const f of folders) {
-      const wiz = await isWizFolder(f.uri);
-      if (wiz) wizFolders.push(f.uri);
+      if (index.has(f.uri.fsPath)) wizFolders.push(f.uri);
       else normalFolders.push(f.uri);
     }
 
     const modeMap = new Map<string, vscode.Uri[]>();
     for (const wf of wizFolders) {
-      const mode = await readModeFromAppJson(wf);
+      const mode = index.get(wf.fsPath)?.mode ?? "unknown";
       const arr = modeMap.get(mode) ?? [];
       arr.push(wf);
       modeMap.set(mode, arr);
@@ -534,33 +1312,106 @@ class WizExplorerProvider implements vscode.TreeDataProvider<FsNodeItem> {
       );
 
     // 3) 일반 폴더/파일 노드 생성 (wiz 폴더는 여기서 제외해서 중복 방지)
-    const folderItems = normalFolders.map(
-      (u) => new FsNodeItem({ kind: "folder", uri: u })
+    const folderItems = normalFolders.map((u) =>
+      this.remember(new FsNodeItem({ kind: "folder", uri: u }))
     );
     const fileItems = files.map(
       (f) => new FsNodeItem({ kind: "file", uri: f.uri })
     );
 
-    // ✅ 반환 순서: [modeGroup들] + [일반 폴더] + [파일]
-    return [...modeGroups, ...folderItems, ...fileItems];
-  }
-}
+    // 워크스페이스 바로 아래: 전체 트리의 wiz 폴더 모아보기
+    const modeRoot: FsNodeItem[] = [];
+    if (element.kind === "workspace") {
+      this.modeRoots.delete(dir.fsPath);
+      if (index.under(dir.fsPath).length) {
+        const root = new FsNodeItem({ kind: "wizModeRoot", parent: dir });
+        this.modeRoots.set(dir.fsPath, root);
+        modeRoot.push(root);
+      }
+    }
 
-const TREE_MIME = "application/vnd.code.tree.wizExplorer";
-// Copilot/Chat/Explorer 계열이 가장 잘 먹는 트리 MIME
-const EXPLORER_TREE_MIME = "application/vnd.code.tree.explorer";
-const URI_LIST_MIME = "application/vnd.code.uri-list";
+    // ✅ 반환 순서: [Wiz (by mode)] + [modeGroup들] + [일반 폴더] + [파일]
+    return [...modeRoot, ...modeGroups, ...folderItems, ...fileItems];
+  }
 
-class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem> {
-  readonly dragMimeTypes = [
-    TREE_MIME,
-    EXPLORER_TREE_MIME,
+  private modeRootChildren(wsDir: vscode.Uri): FsNodeItem[] {
+    const modes = new Set(
+      this.wizIndex.index.under(wsDir.fsPath).map((e) => e.mode)
+    );
+    return [...modes]
+      .sort((a, b) => a.localeCompare(b))
+      .map(
+        (mode) =>
+          new FsNodeItem({
+            kind: "modeGroup",
+            parent: wsDir,
+            modeKey: mode,
+            byMode: true,
+          })
+      );
+  }
+
+  // by-mode 그룹: mode -> (groupByCategory면) category -> wiz 폴더
+  private modeGroupChildren(element: FsNodeItem): FsNodeItem[] {
+    const wsDir = element.parent;
+    if (!wsDir) return [];
+
+    const entries = this.wizIndex.index
+      .under(wsDir.fsPath)
+      .filter((e) => e.mode === element.modeKey)
+      .map((e) => ({ ...e, rel: relPath(wsDir, vscode.Uri.file(e.fsPath)) }))
+      .sort((a, b) => a.rel.localeCompare(b.rel));
+
+    const toItem = (e: { fsPath: string; rel: string }) => {
+      const item = new FsNodeItem({
+        kind: "wizFolder",
+        uri: vscode.Uri.file(e.fsPath),
+        byMode: true,
+      });
+      item.description = e.rel;
+      return item;
+    };
+
+    if (element.kind === "categoryGroup") {
+      return entries.filter((e) => e.category === element.category).map(toItem);
+    }
+    if (!getSeasonConfig().groupByCategory) return entries.map(toItem);
+
+    // category 없는 폴더는 그룹 없이 뒤에
+    const categories = [
+      ...new Set(entries.map((e) => e.category).filter(Boolean)),
+    ].sort((a, b) => a.localeCompare(b));
+    return [
+      ...categories.map(
+        (category) =>
+          new FsNodeItem({
+            kind: "categoryGroup",
+            parent: wsDir,
+            modeKey: element.modeKey ?? "unknown",
+            category,
+          })
+      ),
+      ...entries.filter((e) => !e.category).map(toItem),
+    ];
+  }
+}
+
+const TREE_MIME = "application/vnd.code.tree.wizExplorer";
+// Copilot/Chat/Explorer 계열이 가장 잘 먹는 트리 MIME
+const EXPLORER_TREE_MIME = "application/vnd.code.tree.explorer";
+const URI_LIST_MIME = "application/vnd.code.uri-list";
+
+class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem> {
+  readonly dragMimeTypes = [
+    TREE_MIME,
+    EXPLORER_TREE_MIME,
     URI_LIST_MIME,
     "text/uri-list",
     "resourceurls",
     "text/plain",
   ];
-  readonly dropMimeTypes = [TREE_MIME];
+  // 내부 tree + VS Code Explorer(uri-list) + OS 파일
+  readonly dropMimeTypes = [TREE_MIME, "text/uri-list", "files"];
 
   private lastDraggedUris: vscode.Uri[] = [];
 
@@ -670,33 +1521,42 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
       targetPath: target?.uri?.fsPath,
     });
 
-    const item = dataTransfer.get(TREE_MIME);
-    if (!item) return;
+    const internal = dataTransfer.get(TREE_MIME)?.value as
+      | vscode.Uri[]
+      | undefined;
+
+    // 외부 drop: workspace 안 파일은 이동, 밖(OS 등)은 복사
+    const external = internal?.length
+      ? null
+      : await readExternalDrop(dataTransfer);
+    const dragged = internal?.length ? internal : (external?.uris ?? []);
+    const droppedFiles = external?.files ?? [];
 
-    const dragged = item.value as vscode.Uri[] | undefined;
-    if (!dragged?.length) {
-      console.log("[DnD] dragged empty", { valueType: typeof item.value });
+    if (!dragged.length && !droppedFiles.length) {
+      console.log("[DnD] dragged empty", {
+        types: Array.from(dataTransfer).map(([k]) => k),
+      });
       return;
     }
 
     // 목적지 계산
-    const wsFolders = vscode.workspace.workspaceFolders;
-    if (!wsFolders?.length) return;
-
-    const fromWs =
-      vscode.workspace.getWorkspaceFolder(dragged[0]) ?? wsFolders[0];
-    let destDir: vscode.Uri = fromWs.uri;
-
     if (target?.kind === "modeGroup") return;
+    if (target && !target.uri) return; // ✅ 추가 (modeGroup 제외했으니 사실상 안전장치)
 
-    if (target) {
-      if (!target.uri) return; // ✅ 추가 (modeGroup 제외했으니 사실상 안전장치)
-
+    let destDir: vscode.Uri;
+    if (target?.uri) {
       if (target.kind === "workspace" || target.kind === "folder") {
         destDir = target.uri;
       } else {
         destDir = vscode.Uri.file(path.dirname(target.uri.fsPath));
       }
+    } else {
+      // 빈 곳에 drop: 끌어온 항목의 workspace folder (밖에서 왔으면 물어봄)
+      const ws =
+        (dragged.length && vscode.workspace.getWorkspaceFolder(dragged[0])) ||
+        (await resolveWorkspaceFolder());
+      if (!ws) return;
+      destDir = ws.uri;
     }
 
     // ✅ wizFolder 위/안으로 drop 금지
@@ -720,6 +1580,10 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
     const skipped: string[] = [];
     const renamed: Array<{ from: string; to: string }> = [];
     const movedPairs: Array<{ from: vscode.Uri; to: vscode.Uri }> = [];
+    let copied = 0;
+    // undo 한 번에: rename + app.json 수정 + 사용처 치환
+    const ops: FsOp[] = [];
+    const retagged: Array<{ oldTag: string; newTag: string }> = [];
 
     // 같은 드롭에서 동일 이름이 여러 개면 pickNonConflictingUri가
     // “파일시스템 stat”만 보게 되면 충돌이 날 수 있음.
@@ -728,27 +1592,45 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
 
     const reserveKey = (u: vscode.Uri) => u.fsPath.toLowerCase();
 
+    // 다른 workspace folder로 가는 항목은 이동/복사 확인
+    const crossRoot = await confirmCrossRootMove(dragged, destDir);
+    if (!crossRoot) return;
+
     try {
       for (const src of dragged) {
         if (src.scheme !== "file") continue;
 
         const baseName = path.basename(src.fsPath);
 
+        // workspace 밖(OS/다른 폴더)에서 온 건 복사
+        const copy =
+          !vscode.workspace.getWorkspaceFolder(src) ||
+          (crossRoot === "copy" && isCrossRoot(src, destDir));
+
         // ✅ 같은 폴더(=현재 부모)로 드롭이면 아무 일도 안 함
         const srcParent = vscode.Uri.file(path.dirname(src.fsPath));
-        if (srcParent.fsPath === destDir.fsPath) {
+        if (!copy && srcParent.fsPath === destDir.fsPath) {
           // 메시지/스킵 기록도 굳이 하지 않는 게 자연스러움
           continue;
         }
-
-        // ✅ wizFolder 자체 이동 막기
-        if (await isWizFolder(src)) {
-          vscode.window.showInformationMessage(
-            `"${baseName}"는 Wiz 형식이라 이동할 수 없습니다.`
-          );
+        if (!copy && isSameOrInside(destDir, src)) {
+          skipped.push(`${baseName} (자기 자신 안으로 이동)`);
           continue;
         }
 
+        // ✅ wizFolder 이동: 위치에 따라 template이 바뀌면 app.json도 같이
+        let wizMove: Awaited<ReturnType<typeof planWizFolderMove>> = null;
+        if (!copy && (await isWizFolder(src))) {
+          try {
+            wizMove = await planWizFolderMove(src, destDir);
+          } catch (e: any) {
+            vscode.window.showInformationMessage(
+              `"${baseName}"를 이동할 수 없습니다: ${e?.message ?? String(e)}`
+            );
+            continue;
+          }
+        }
+
         // ✅ 동일 이름 충돌 시 자동 새 이름
         let dst = await pickNonConflictingUri(destDir, baseName);
 
@@ -766,10 +1648,64 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
         const dstName = path.basename(dst.fsPath);
         if (dstName !== baseName) renamed.push({ from: baseName, to: dstName });
 
+        if (copy) {
+          const t = await getFileTypeSafe(src);
+          if (t === null) {
+            skipped.push(baseName);
+            continue;
+          }
+          if ((t & vscode.FileType.Directory) === vscode.FileType.Directory) {
+            ops.push(...(await copyDirWithOps(src, dst)));
+          } else {
+            const data = await vscode.workspace.fs.readFile(src);
+            await vscode.workspace.fs.writeFile(dst, data);
+            ops.push({ type: "createFile", uri: dst, contents: data });
+          }
+          copied++;
+          continue;
+        }
+
         // ✅ 실제 이동 (applyEdit 사용 X)
         await vscode.workspace.fs.rename(src, dst, { overwrite: false });
 
         movedPairs.push({ from: src, to: dst });
+        ops.push({ type: "rename", from: src, to: dst });
+
+        if (wizMove) {
+          const appJsonUri = vscode.Uri.joinPath(dst, "app.json");
+          const before = await readFileSafe(appJsonUri);
+          if (before) {
+            const after = rewriteAppJsonIdentity(before, wizMove.identity);
+            await vscode.workspace.fs.writeFile(appJsonUri, after);
+            ops.push({ type: "writeFile", uri: appJsonUri, before, after });
+            retagged.push(wizMove);
+          }
+        }
+      }
+
+      // ✅ uri 없이 내용만 온 파일 (OS drop 일부)
+      for (const file of droppedFiles) {
+        let dst = await pickNonConflictingUri(destDir, file.name);
+        while (reserved.has(reserveKey(dst))) {
+          dst = await pickNonConflictingUri(destDir, path.basename(dst.fsPath));
+        }
+        reserved.add(reserveKey(dst));
+
+        const data = await file.data();
+        await vscode.workspace.fs.writeFile(dst, data);
+        ops.push({ type: "createFile", uri: dst, contents: data });
+        copied++;
+      }
+
+      // ✅ template이 바뀐 wiz 폴더들의 사용처 (미리보기에서 선택한 것만)
+      for (const { oldTag, newTag } of retagged) {
+        const targets = await pickTemplateUsageFiles(
+          oldTag,
+          newTag,
+          "Move Wiz Page"
+        );
+        if (!targets?.length) continue;
+        await rewriteTemplateUsages(ops, targets, oldTag, newTag);
       }
     } catch (e: any) {
       console.error("[DnD] move error", e);
@@ -779,7 +1715,7 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
       // 보통은 실패 메시지 보여주고, 성공한 건 정상 반영되게 두는 편이 안전함.
     }
 
-    if (movedPairs.length === 0) {
+    if (ops.length === 0) {
       if (skipped.length) {
         vscode.window.showInformationMessage(
           `이동할 항목이 없어요. (스킵 ${skipped.length}개)`
@@ -791,7 +1727,15 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
     // ✅ 성공한 최종 from->to를 batch로 기록 (Undo/Redo가 이걸로 동작)
     pushOp({
       type: "batch",
-      ops: movedPairs.map((p) => ({ type: "rename", from: p.from, to: p.to })),
+      ops,
+      // rename만 있으면 describeOp가 "Moved N items to ..."로 설명
+      label:
+        retagged.length || copied
+          ? describeDrop(movedPairs.length, copied, destDir) +
+            (retagged.length
+              ? ` (${retagged.length} Wiz templates updated)`
+              : "")
+          : undefined,
     });
 
     setTimeout(() => this.refresh(), 0);
@@ -814,533 +1758,2364 @@ class SeasonExplorerDnD implements vscode.TreeDragAndDropController<FsNodeItem>
   }
 }
 
-class WizFolderEditorProvider implements vscode.CustomReadonlyEditorProvider {
-  public static readonly viewType = "wiz.folderEditor";
-  public static currentPanel: vscode.WebviewPanel | undefined;
+// VS Code Explorer / OS에서 온 drop: uri-list(파일/폴더) + uri 없는 파일 내용
+async function readExternalDrop(dataTransfer: vscode.DataTransfer) {
+  const uris: vscode.Uri[] = [];
+  const files: vscode.DataTransferFile[] = [];
+  const seen = new Set<string>();
+
+  const add = (u: vscode.Uri) => {
+    if (u.scheme !== "file") return;
+    // 폴더는 trailing slash로 올 수 있음
+    const fsPath = u.fsPath.replace(/[\\/]+$/, "");
+    if (!fsPath || seen.has(fsPath)) return;
+    seen.add(fsPath);
+    uris.push(vscode.Uri.file(fsPath));
+  };
+
+  const uriList = await dataTransfer.get("text/uri-list")?.asString();
+  for (const line of (uriList ?? "").split(/\r?\n/)) {
+    const t = line.trim();
+    if (!t || t.startsWith("#")) continue; // text/uri-list 주석
+    try {
+      add(vscode.Uri.parse(t, true));
+    } catch {}
+  }
 
-  constructor(
-    private readonly context: vscode.ExtensionContext,
-    private readonly dnd: SeasonExplorerDnD
-  ) {}
+  dataTransfer.forEach((item) => {
+    const file = item.asFile();
+    if (!file) return;
+    if (file.uri) add(file.uri);
+    else files.push(file);
+  });
 
-  openCustomDocument(
-    uri: vscode.Uri,
-    openContext: vscode.CustomDocumentOpenContext,
-    token: vscode.CancellationToken
-  ): vscode.CustomDocument {
-    // uri: wizfolder:/abs/path/to/folder
-    // “문서”는 사실 폴더 자체
-    return { uri, dispose: () => {} };
+  return { uris, files };
+}
+
+function describeDrop(moved: number, copied: number, destDir: vscode.Uri) {
+  const parts: string[] = [];
+  if (moved) parts.push(`Moved ${moved}`);
+  if (copied) parts.push(`Copied ${copied}`);
+  const total = moved + copied;
+  return `${parts.join(" + ")} item${total === 1 ? "" : "s"} to ${vscode.workspace.asRelativePath(destDir)}`;
+}
+
+type HistoryNode =
+  | { kind: "undo" | "redo"; entry: FsHistoryEntry }
+  | { kind: "current" };
+
+function describeHistoryOp(op: FsOp) {
+  return describeOp(op, (u) => vscode.workspace.asRelativePath(u, false));
+}
+
+/**
+ * Undo History view
+ * - 위: redo 가능한 항목 (현재 위치에 가까울수록 아래)
+ * - 가운데: 현재 상태
+ * - 아래: undo 가능한 항목 (최근 것이 위)
+ */
+class HistoryViewProvider implements vscode.TreeDataProvider<HistoryNode> {
+  readonly onDidChangeTreeData = historyChangedEmitter.event;
+
+  getChildren(element?: HistoryNode): HistoryNode[] {
+    if (element) return [];
+    if (!undoStack.length && !redoStack.length) return [];
+
+    const redo = redoStack.map((entry) => ({ kind: "redo" as const, entry }));
+    const undo = [...undoStack]
+      .reverse()
+      .map((entry) => ({ kind: "undo" as const, entry }));
+
+    return [...redo, { kind: "current" }, ...undo];
   }
 
-  async resolveCustomEditor(
-    document: vscode.CustomDocument,
-    webviewPanel: vscode.WebviewPanel,
-    token: vscode.CancellationToken
-  ): Promise<void> {
-    const writing = new Set<string>();
-    webviewPanel.webview.options = {
-      enableScripts: true,
-      localResourceRoots: [
-        this.context.extensionUri,
-        vscode.Uri.joinPath(this.context.extensionUri, "media"),
-      ],
-    };
-    WizFolderEditorProvider.currentPanel = webviewPanel;
-    webviewPanel.onDidDispose(() => {
-      if (WizFolderEditorProvider.currentPanel === webviewPanel) {
-        WizFolderEditorProvider.currentPanel = undefined;
-      }
-    });
+  getTreeItem(node: HistoryNode): vscode.TreeItem {
+    if (node.kind === "current") {
+      const item = new vscode.TreeItem("Current state");
+      item.iconPath = new vscode.ThemeIcon("location");
+      item.contextValue = "historyCurrent";
+      return item;
+    }
 
-    // 폴더 경로 얻기
-    const entryFsPath = document.uri.fsPath; // .../somefolder/.wizpage
-    const folderFsPath = path.dirname(entryFsPath); // .../somefolder
-    const folderUri = vscode.Uri.file(folderFsPath);
-    const folderName = path.basename(folderFsPath);
+    const { entry } = node;
+    const label = describeHistoryOp(entry.op);
+    const item = new vscode.TreeItem(label);
 
-    const raw = this.getHtml(webviewPanel.webview);
-    // 디버그: 렌더된 HTML을 임시로 저장
-    const debugUri = vscode.Uri.joinPath(
-      this.context.globalStorageUri,
-      "wiz-debug.html"
+    item.description = new Date(entry.at).toLocaleTimeString();
+    item.contextValue = node.kind === "undo" ? "historyUndo" : "historyRedo";
+    item.iconPath = new vscode.ThemeIcon(
+      node.kind === "undo" ? "discard" : "redo"
     );
-    await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
-    await vscode.workspace.fs.writeFile(debugUri, Buffer.from(raw, "utf8"));
-    console.log("[wiz] debug html:", debugUri.fsPath);
-    webviewPanel.webview.html = sanitizeForWebview(raw);
-
-    const post = (msg: any) => webviewPanel.webview.postMessage(msg);
-    post({ type: "init", folderName, tabs: WIZ_FILES });
 
-    const readText = async (fileUri: vscode.Uri) => {
-      try {
-        const data = await vscode.workspace.fs.readFile(fileUri);
-        return Buffer.from(data).toString("utf8");
-      } catch {
-        return null;
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${label}**\n\n`);
+    if (entry.op.type === "batch") {
+      for (const inner of entry.op.ops.slice(0, 20)) {
+        tooltip.appendMarkdown(`- ${describeHistoryOp(inner)}\n`);
       }
-    };
+      if (entry.op.ops.length > 20) {
+        tooltip.appendMarkdown(`- … (+${entry.op.ops.length - 20})\n`);
+      }
+      tooltip.appendMarkdown("\n");
+    }
+    tooltip.appendMarkdown(
+      node.kind === "undo"
+        ? "_Click to undo up to here_"
+        : "_Click to redo up to here_"
+    );
+    item.tooltip = tooltip;
+
+    item.command =
+      node.kind === "undo"
+        ? {
+            command: "seasonExplorer.undoTo",
+            title: "Undo to Here",
+            arguments: [entry],
+          }
+        : {
+            command: "seasonExplorer.redoTo",
+            title: "Redo to Here",
+            arguments: [entry],
+          };
 
-    const writeText = async (fileUri: vscode.Uri, text: string) => {
-      const data = Buffer.from(text, "utf8");
-      await vscode.workspace.fs.writeFile(fileUri, data);
-    };
+    return item;
+  }
+}
+
+type WizTabState = {
+  saved: string | null; // 디스크 내용 (null = 파일 없음)
+  edited?: string; // 저장 안 된 편집 내용 (없으면 clean)
+};
+
+// conflict: 저장 안 된 편집이 있는 탭의 파일이 디스크에서 바뀜
+// clean: 디스크 내용이 편집 내용과 같아져 편집이 사라짐
+type WizFileEvent = {
+  kind: "changed" | "deleted" | "conflict" | "clean";
+  key: string;
+};
+
+async function readTextSafe(uri: vscode.Uri): Promise<string | null> {
+  const buf = await readFileSafe(uri);
+  return buf ? Buffer.from(buf).toString("utf8") : null;
+}
 
-    // 파일 변경 감지(외부 수정 반영)
-    const watcher = vscode.workspace.createFileSystemWatcher(
-      new vscode.RelativePattern(folderUri, "*")
+/**
+ * Wiz 폴더 = 문서
+ * - 탭(seasonEditor.tabs / tabsByMode 반영)별 디스크 내용 / 편집 내용
+ * - dirty, save, revert, backup(hot exit)
+ */
+class WizFolderDocument implements vscode.CustomDocument {
+  static async open(uri: vscode.Uri, backupId?: string) {
+    // 탭 구성은 열 때 한 번 계산 (설정 변경은 다시 열면 반영)
+    const { tabs, tabsByMode } = getSeasonConfig();
+    const json = await readAppJson(parentDirUri(uri));
+    const doc = new WizFolderDocument(
+      uri,
+      resolveTabs({ extra: tabs, byMode: tabsByMode, mode: json?.mode })
     );
-    const onChange = async (u: vscode.Uri) => {
-      const basename = path.basename(u.fsPath);
+    await doc.reload();
+    if (backupId) await doc.restoreBackup(vscode.Uri.parse(backupId));
+    doc.watch();
+    return doc;
+  }
 
-      // ✅ 내가 방금 저장한 파일이면 watcher 에코 무시
-      if (writing.has(basename)) return;
+  readonly folderUri: vscode.Uri;
 
-      const tab = WIZ_FILES.find((t) => t.filename === basename);
-      if (!tab) return;
-      const text = await readText(u);
-      if (text === null) return;
-      post({ type: "content", key: tab.key, filename: basename, text });
-    };
+  private readonly state = new Map<string, WizTabState>();
+  // ✅ 내가 방금 저장한 파일이면 watcher 에코 무시
+  private readonly writing = new Set<string>();
+  private watcher: vscode.FileSystemWatcher | undefined;
 
-    watcher.onDidChange(onChange);
-    watcher.onDidCreate(onChange);
-    watcher.onDidDelete((u) => {
-      const basename = path.basename(u.fsPath);
-      const tab = WIZ_FILES.find((t) => t.filename === basename);
-      if (!tab) return;
-      post({ type: "deleted", key: tab.key, filename: basename });
-    });
+  private readonly _onDidChangeFile = new vscode.EventEmitter<WizFileEvent>();
+  readonly onDidChangeFile = this._onDidChangeFile.event;
 
-    webviewPanel.onDidDispose(() => watcher.dispose());
+  private readonly _onDidDispose = new vscode.EventEmitter<void>();
+  readonly onDidDispose = this._onDidDispose.event;
 
-    // webview <-> extension 메시지
-    webviewPanel.webview.onDidReceiveMessage(async (msg) => {
-      if (msg?.type === "read") {
-        const tab = WIZ_FILES.find((t) => t.key === msg.key);
-        if (!tab) return;
+  // 저장 안 된 탭 수가 바뀜 (FileDecoration)
+  private readonly _onDidChangeDirty = new vscode.EventEmitter<void>();
+  readonly onDidChangeDirty = this._onDidChangeDirty.event;
+  private dirtyCount = 0;
 
-        const fileUri = vscode.Uri.joinPath(folderUri, tab.filename);
-        const text = await readText(fileUri);
-        post({
-          type: "content",
-          key: tab.key,
-          filename: tab.filename,
-          text: text ?? "",
-          missing: text === null,
-        });
-        return;
-      }
+  // 탭 파일을 저장함 (view.ts -> app.json ng 갱신)
+  private readonly _onDidSaveTab = new vscode.EventEmitter<{
+    tab: WizTab;
+    text: string;
+  }>();
+  readonly onDidSaveTab = this._onDidSaveTab.event;
 
-      if (msg?.type === "write") {
-        const tab = WIZ_FILES.find((t) => t.key === msg.key);
-        if (!tab?.filename) return;
+  private constructor(
+    readonly uri: vscode.Uri,
+    readonly tabs: WizTab[]
+  ) {
+    // uri: .../somefolder/.wizpage
+    this.folderUri = parentDirUri(uri);
+  }
 
-        const fileUri = vscode.Uri.joinPath(folderUri, tab.filename);
+  get folderName() {
+    return path.basename(this.folderUri.fsPath);
+  }
 
-        // ✅ watcher 에코 방지 시작
-        writing.add(tab.filename);
-        try {
-          await writeText(fileUri, msg.text ?? "");
-          post({ type: "saved", key: tab.key, filename: tab.filename });
-        } finally {
-          // ✅ 파일시스템 이벤트가 약간 늦게 올 수 있어서 살짝 딜레이 후 해제
-          setTimeout(() => writing.delete(tab.filename!), 150);
-        }
-        return;
-      }
-      // ✅ 드롭된 값(문자열/경로)을 "wiz 폴더"로 최대한 정확히 복원
-      function stripVsCodeSuffix(p: string) {
-        // "/path/to/foo$0" 같은 suffix 제거
-        return p.replace(/\$\d+$/, "");
-      }
+  get isDirty() {
+    return this.dirtyKeys().length > 0;
+  }
 
-      async function resolveDroppedToWizFolder(
-        msg: any
-      ): Promise<vscode.Uri | null> {
-        // 1) webview가 fsPath를 줬으면 최우선
-        let rawPath: string | null = null;
+  tab(key: string) {
+    return this.tabs.find((t) => t.key === key);
+  }
 
-        if (typeof msg?.path === "string" && msg.path.trim()) {
-          rawPath = stripVsCodeSuffix(msg.path.trim());
-        }
+  dirtyKeys() {
+    return this.tabs
+      .filter((t) => this.state.get(t.key)?.edited !== undefined)
+      .map((t) => t.key);
+  }
 
-        // 2) uri 문자열로 왔으면 파싱 시도
-        let dropped: vscode.Uri | null = null;
+  // webview로 보낼 탭 상태
+  snapshot(key: string) {
+    const s = this.tabState(key);
+    return { text: s.saved ?? "", edited: s.edited, missing: s.saved === null };
+  }
 
-        if (rawPath) {
-          dropped = vscode.Uri.file(rawPath);
-        } else if (msg?.uri) {
-          const raw = String(msg.uri).trim();
+  // webview 편집 반영 (상태가 바뀌었으면 true)
+  edit(key: string, text: string): boolean {
+    if (!this.tab(key)) return false;
 
-          // "/Users/..." 같은 순수 경로로 오는 케이스도 있음
-          if (raw.startsWith("/")) {
-            dropped = vscode.Uri.file(stripVsCodeSuffix(raw));
-          } else {
-            try {
-              const parsed = vscode.Uri.parse(raw);
+    const s = this.tabState(key);
+    const next = text === (s.saved ?? "") ? undefined : text;
+    if (s.edited === next) return false;
 
-              if (parsed.scheme === "file") {
-                dropped = parsed;
-              } else if (
-                parsed.scheme === "vscode-file" ||
-                parsed.scheme === "vscode-resource"
-              ) {
-                if (parsed.path?.startsWith("/"))
-                  dropped = vscode.Uri.file(stripVsCodeSuffix(parsed.path));
-              } else if (
-                parsed.scheme === "http" ||
-                parsed.scheme === "https"
-              ) {
-                if (parsed.path?.startsWith("/"))
-                  dropped = vscode.Uri.file(stripVsCodeSuffix(parsed.path));
-              }
-            } catch {
-              // 마지막 fallback: 그냥 파일 경로로 취급
-              if (raw.includes("/"))
-                dropped = vscode.Uri.file(stripVsCodeSuffix(raw));
-            }
-          }
-        }
+    s.edited = next;
+    this.checkDirty();
+    return true;
+  }
 
-        if (!dropped) return null;
+  async saveTab(key: string, text?: string): Promise<string | null> {
+    const tab = this.tab(key);
+    if (!tab) return null;
 
-        // 3) ".wizpage"를 드롭한 경우 => 부모가 wiz 폴더
-        if (path.basename(dropped.fsPath) === ".wizpage") {
-          return vscode.Uri.file(path.dirname(dropped.fsPath));
-        }
+    const s = this.tabState(key);
+    const out = text ?? s.edited ?? s.saved ?? "";
+    await this.writeTabFile(tab.filename, out);
 
-        // 4) 파일이면 부모 폴더, 폴더면 그대로
-        const st = await statSafe(dropped);
-        const candidateFolder =
-          st &&
-          (st.type & vscode.FileType.Directory) === vscode.FileType.Directory
-            ? dropped
-            : vscode.Uri.file(path.dirname(dropped.fsPath));
+    s.saved = out;
+    s.edited = undefined;
+    this.checkDirty();
+    this._onDidSaveTab.fire({ tab, text: out });
+    return out;
+  }
 
-        return candidateFolder;
-      }
+  async save(): Promise<Array<{ key: string; text: string }>> {
+    const out: Array<{ key: string; text: string }> = [];
+    for (const key of this.dirtyKeys()) {
+      const text = await this.saveTab(key);
+      if (text !== null) out.push({ key, text });
+    }
+    return out;
+  }
 
-      const readJsonSafe = async (fileUri: vscode.Uri) => {
-        const text = await readText(fileUri);
-        if (text == null) return null;
-        try {
-          return JSON.parse(text);
-        } catch {
-          return null;
-        }
-      };
+  async saveAs(destination: vscode.Uri) {
+    const destFolder = parentDirUri(destination);
+    await vscode.workspace.fs.createDirectory(destFolder);
+
+    for (const tab of this.tabs) {
+      const s = this.state.get(tab.key);
+      const text = s?.edited ?? s?.saved;
+      if (text == null) continue;
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(destFolder, tab.filename),
+        Buffer.from(text, "utf8")
+      );
+    }
 
-      const getTemplateFromWizFolder = async (wizFolderUri: vscode.Uri) => {
-        const appJsonUri = vscode.Uri.joinPath(wizFolderUri, "app.json");
-        const json = await readJsonSafe(appJsonUri);
-        if (!json) return { text: "", missing: true };
+    if (!(await exists(destination))) {
+      await vscode.workspace.fs.writeFile(destination, new Uint8Array());
+    }
+  }
 
-        const t = json?.template ?? json?.Template ?? json?.TEMPLATE;
-        if (t == null) return { text: "", missing: true };
+  // 디스크 기준으로 다시 읽기 (편집 내용 버림)
+  async reload() {
+    for (const tab of this.tabs) {
+      const text = await readTextSafe(
+        vscode.Uri.joinPath(this.folderUri, tab.filename)
+      );
+      this.state.set(tab.key, { saved: text });
+    }
+    this.checkDirty();
+  }
 
-        // ✅ 여기서 "template 문자열"만 보낸다
-        if (typeof t === "string") return { text: t, missing: false };
+  async backup(destination: vscode.Uri): Promise<vscode.CustomDocumentBackup> {
+    const edited: Record<string, string> = {};
+    for (const key of this.dirtyKeys()) {
+      edited[key] = this.state.get(key)?.edited ?? "";
+    }
 
-        // template이 객체/배열이면 stringify (혹시 모를 케이스)
-        try {
-          return { text: JSON.stringify(t, null, 2), missing: false };
-        } catch {
-          return { text: String(t), missing: false };
-        }
-      };
+    await vscode.workspace.fs.writeFile(
+      destination,
+      Buffer.from(JSON.stringify({ edited }), "utf8")
+    );
 
-      if (msg?.type === "requestTemplate") {
+    return {
+      id: destination.toString(),
+      delete: async () => {
         try {
-          const wizFolder = await resolveDroppedToWizFolder(msg);
-          console.log(
-            "[requestTemplate] resolved wizFolder:",
-            wizFolder?.fsPath,
-            msg
-          );
+          await vscode.workspace.fs.delete(destination);
+        } catch {}
+      },
+    };
+  }
 
-          if (!wizFolder) {
-            post({ type: "template", text: "", missing: true });
-            return;
-          }
+  dispose() {
+    this.watcher?.dispose();
+    this._onDidDispose.fire();
+    this._onDidDispose.dispose();
+    this._onDidChangeFile.dispose();
+    this._onDidChangeDirty.dispose();
+    this._onDidSaveTab.dispose();
+  }
 
-          // ✅ 진짜 wiz 폴더인지 체크
-          if (!(await isWizFolder(wizFolder))) {
-            post({ type: "template", text: "", missing: true });
-            return;
-          }
+  private checkDirty() {
+    const n = this.dirtyKeys().length;
+    if (n === this.dirtyCount) return;
+    this.dirtyCount = n;
+    this._onDidChangeDirty.fire();
+  }
 
-          const { text, missing } = await getTemplateFromWizFolder(wizFolder);
+  private tabState(key: string): WizTabState {
+    let s = this.state.get(key);
+    if (!s) {
+      s = { saved: null };
+      this.state.set(key, s);
+    }
+    return s;
+  }
 
-          // ✅ "app.json 전체"를 보내는 실수 방지: template은 보통 짧은 한 줄
+  private async restoreBackup(backupUri: vscode.Uri) {
+    const text = await readTextSafe(backupUri);
+    if (!text) return;
+
+    try {
+      const { edited } = JSON.parse(text);
+      for (const [key, value] of Object.entries(edited ?? {})) {
+        if (typeof value === "string") this.edit(key, value);
+      }
+    } catch (e) {
+      console.error("[wiz] backup restore failed", backupUri.fsPath, e);
+    }
+  }
+
+  // 파일 변경 감지(외부 수정 반영)
+  private watch() {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(this.folderUri, "*")
+    );
+
+    const onChange = async (u: vscode.Uri) => {
+      const filename = path.basename(u.fsPath);
+      if (this.writing.has(filename)) return;
+
+      const tab = this.tabs.find((t) => t.filename === filename);
+      if (!tab) return;
+
+      const text = await readTextSafe(u);
+      if (text === null) return;
+
+      const s = this.tabState(tab.key);
+      if (s.saved === text) return;
+
+      const conflict = s.edited !== undefined && s.edited !== text;
+      const clean = s.edited === text;
+      s.saved = text;
+      if (clean) s.edited = undefined;
+      this.checkDirty();
+      this._onDidChangeFile.fire({
+        kind: conflict ? "conflict" : clean ? "clean" : "changed",
+        key: tab.key,
+      });
+    };
+
+    this.watcher.onDidChange(onChange);
+    this.watcher.onDidCreate(onChange);
+    this.watcher.onDidDelete((u) => {
+      const tab = this.tabs.find((t) => t.filename === path.basename(u.fsPath));
+      if (!tab) return;
+
+      this.tabState(tab.key).saved = null;
+      this._onDidChangeFile.fire({ kind: "deleted", key: tab.key });
+    });
+  }
+
+  private async writeTabFile(filename: string, text: string) {
+    this.writing.add(filename);
+    try {
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(this.folderUri, filename),
+        Buffer.from(text, "utf8")
+      );
+    } finally {
+      // ✅ 파일시스템 이벤트가 약간 늦게 올 수 있어서 살짝 딜레이 후 해제
+      setTimeout(() => this.writing.delete(filename), 150);
+    }
+  }
+}
+
+class WizFolderEditorProvider implements vscode.CustomEditorProvider<WizFolderDocument> {
+  public static readonly viewType = "wiz.folderEditor";
+  public static currentPanel: vscode.WebviewPanel | undefined;
+
+  private readonly _onDidChangeCustomDocument = new vscode.EventEmitter<
+    vscode.CustomDocumentContentChangeEvent<WizFolderDocument>
+  >();
+  readonly onDidChangeCustomDocument = this._onDidChangeCustomDocument.event;
+
+  // document -> 열려 있는 webview panel들
+  private readonly panels = new Map<
+    WizFolderDocument,
+    Set<vscode.WebviewPanel>
+  >();
+
+  // "<document uri>#<tab key>": conflict 알림이 떠 있는 탭
+  private readonly pendingConflicts = new Set<string>();
+
+  // VS Code 탭에 dirty로 알린 문서 (save/revert 전까지 VS Code가 dirty로 표시)
+  private readonly reportedDirty = new Set<WizFolderDocument>();
+  // 문서별 dirty 표시 동기화 (순서대로 하나씩)
+  private readonly dirtySync = new Map<WizFolderDocument, Promise<void>>();
+  // dirty 표시만 지우려고 부른 save (saveCustomDocument가 디스크에 쓰지 않음)
+  private readonly clearingDirty = new Set<WizFolderDocument>();
+
+  // 저장 안 된 탭 수가 바뀐 wiz 폴더 (FileDecoration)
+  private readonly _onDidChangeDirtyFolder =
+    new vscode.EventEmitter<vscode.Uri>();
+  readonly onDidChangeDirtyFolder = this._onDidChangeDirtyFolder.event;
+
+  constructor(
+    private readonly context: vscode.ExtensionContext,
+    private readonly dnd: SeasonExplorerDnD
+  ) {}
+
+  async openCustomDocument(
+    uri: vscode.Uri,
+    openContext: vscode.CustomDocumentOpenContext,
+    token: vscode.CancellationToken
+  ): Promise<WizFolderDocument> {
+    // “문서”는 사실 폴더 자체 (uri는 폴더 안의 .wizpage)
+    const document = await WizFolderDocument.open(uri, openContext.backupId);
+
+    document.onDidChangeFile((e) => {
+      const tab = document.tab(e.key);
+      if (!tab) return;
+
+      if (e.kind === "deleted") {
+        this.postToDocument(document, {
+          type: "deleted",
+          key: tab.key,
+          filename: tab.filename,
+        });
+        return;
+      }
+
+      if (e.kind === "conflict") {
+        void this.resolveConflict(document, tab);
+        return;
+      }
+
+      // webview는 편집 중이라 content를 무시하므로 기준만 바꿔 dirty 해제
+      if (e.kind === "clean") {
+        this.postToDocument(document, {
+          type: "baseline",
+          key: tab.key,
+          text: document.snapshot(tab.key).text,
+        });
+        void this.syncDirty(document);
+        return;
+      }
+
+      this.postToDocument(document, {
+        type: "content",
+        key: tab.key,
+        filename: tab.filename,
+        ...document.snapshot(tab.key),
+      });
+    });
+    document.onDidChangeDirty(() =>
+      this._onDidChangeDirtyFolder.fire(document.folderUri)
+    );
+    document.onDidSaveTab(({ tab, text }) => {
+      if (tab.filename !== "view.ts") return;
+      syncNgFields(this, document.folderUri, text).catch((e) =>
+        console.error("[app.json] ng sync failed", document.folderUri.fsPath, e)
+      );
+    });
+    document.onDidDispose(() => {
+      this.panels.delete(document);
+      this.reportedDirty.delete(document);
+      this.dirtySync.delete(document);
+      // 닫으면 편집 내용도 사라짐
+      this._onDidChangeDirtyFolder.fire(document.folderUri);
+    });
+
+    return document;
+  }
+
+  // 열려 있는 편집기 기준 저장 안 된 탭 수
+  dirtyTabCount(folderUri: vscode.Uri): number {
+    for (const document of this.panels.keys()) {
+      if (document.folderUri.fsPath === folderUri.fsPath) {
+        return document.dirtyKeys().length;
+      }
+    }
+    return 0;
+  }
+
+  // wiz-* 태그 자동완성 목록 -> 열려 있는 모든 편집기
+  postWizTags() {
+    const msg = { type: "wizTags", items: currentWizTags() };
+    for (const panels of this.panels.values()) {
+      for (const panel of panels) panel.webview.postMessage(msg);
+    }
+  }
+
+  // 열려 있는 편집기에서 해당 파일 탭을 편집 중인지
+  isFileDirty(folderUri: vscode.Uri, filename: string): boolean {
+    for (const document of this.panels.keys()) {
+      if (document.folderUri.fsPath === folderUri.fsPath) {
+        return document
+          .dirtyKeys()
+          .some((key) => document.tab(key)?.filename === filename);
+      }
+    }
+    return false;
+  }
+
+  async saveCustomDocument(
+    document: WizFolderDocument,
+    cancellation: vscode.CancellationToken
+  ): Promise<void> {
+    this.reportedDirty.delete(document);
+    if (this.clearingDirty.has(document)) return;
+    await this.saveDocument(document);
+  }
+
+  /**
+   * 문서 dirty 상태 -> VS Code 탭 dirty 표시
+   * - dirty면 change 이벤트
+   * - 편집이 저장된 내용으로 돌아가(또는 탭 저장으로) 깨끗해지면 workspace.save로 표시 해제
+   *   (clearingDirty 동안 saveCustomDocument는 아무것도 쓰지 않음)
+   * - 문서별로 순서대로 처리: save 도중 들어온 편집은 save가 끝난 뒤 다시 dirty로 알림
+   */
+  private syncDirty(document: WizFolderDocument): Promise<void> {
+    const prev = this.dirtySync.get(document) ?? Promise.resolve();
+    const next = prev.then(() => this.reportDirty(document));
+    this.dirtySync.set(
+      document,
+      next.catch((e) => console.error("[wiz] dirty sync failed", e))
+    );
+    return next;
+  }
+
+  private async reportDirty(document: WizFolderDocument) {
+    if (document.isDirty) {
+      this.reportedDirty.add(document);
+      this._onDidChangeCustomDocument.fire({ document });
+      return;
+    }
+    if (!this.reportedDirty.delete(document)) return;
+
+    this.clearingDirty.add(document);
+    try {
+      await vscode.workspace.save(document.uri);
+    } finally {
+      this.clearingDirty.delete(document);
+    }
+  }
+
+  // webview 편집 / Take Theirs 공통
+  private async applyEdit(
+    document: WizFolderDocument,
+    key: string,
+    text: string
+  ) {
+    if (document.edit(key, text)) await this.syncDirty(document);
+  }
+
+  // 현재 (마지막으로 활성화된) Wiz 편집기의 문서
+  activeDocument(): WizFolderDocument | undefined {
+    const panel = WizFolderEditorProvider.currentPanel;
+    if (!panel) return undefined;
+    for (const [document, panels] of this.panels) {
+      if (panels.has(panel)) return document;
+    }
+    return undefined;
+  }
+
+  // 모든 dirty 탭 저장
+  async saveAll(document: WizFolderDocument) {
+    await this.saveDocument(document);
+    await this.syncDirty(document);
+  }
+
+  private async saveDocument(document: WizFolderDocument) {
+    const saved = await document.save();
+    for (const { key, text } of saved) {
+      const tab = document.tab(key);
+      this.postToDocument(document, {
+        type: "saved",
+        key,
+        filename: tab?.filename,
+        text,
+      });
+    }
+  }
+
+  async saveCustomDocumentAs(
+    document: WizFolderDocument,
+    destination: vscode.Uri,
+    cancellation: vscode.CancellationToken
+  ): Promise<void> {
+    await document.saveAs(destination);
+  }
+
+  async revertCustomDocument(
+    document: WizFolderDocument,
+    cancellation: vscode.CancellationToken
+  ): Promise<void> {
+    this.reportedDirty.delete(document);
+    await document.reload();
+    for (const tab of document.tabs) {
+      this.postToDocument(document, {
+        type: "content",
+        key: tab.key,
+        filename: tab.filename,
+        ...document.snapshot(tab.key),
+        force: true,
+      });
+    }
+  }
+
+  backupCustomDocument(
+    document: WizFolderDocument,
+    context: vscode.CustomDocumentBackupContext,
+    cancellation: vscode.CancellationToken
+  ): Promise<vscode.CustomDocumentBackup> {
+    return document.backup(context.destination);
+  }
+
+  // 편집 중인 탭의 파일이 디스크에서 바뀜 -> Keep Mine / Take Theirs / Merge
+  private async resolveConflict(document: WizFolderDocument, tab: WizTab) {
+    // 디스크 내용이 새 기준 (webview dirty 표시도 이 기준으로 다시 계산)
+    this.postToDocument(document, {
+      type: "baseline",
+      key: tab.key,
+      text: document.snapshot(tab.key).text,
+    });
+
+    // 같은 탭에 대해 이미 묻는 중이면 그 선택이 최신 디스크 내용에 적용됨
+    const pendingKey = `${document.uri.toString()}#${tab.key}`;
+    if (this.pendingConflicts.has(pendingKey)) return;
+    this.pendingConflicts.add(pendingKey);
+
+    let pick: string | undefined;
+    try {
+      pick = await vscode.window.showWarningMessage(
+        `"${document.folderName}/${tab.filename}" changed on disk while it has unsaved edits.`,
+        "Keep Mine",
+        "Take Theirs",
+        "Merge…"
+      );
+    } finally {
+      this.pendingConflicts.delete(pendingKey);
+    }
+
+    const { text: theirs, edited: mine } = document.snapshot(tab.key);
+    // 그 사이 저장/되돌리기로 편집이 없어졌으면 물어볼 것도 없음
+    if (mine === undefined) return;
+
+    if (pick === "Take Theirs") {
+      await this.applyEdit(document, tab.key, theirs);
+      this.postToDocument(document, {
+        type: "content",
+        key: tab.key,
+        filename: tab.filename,
+        ...document.snapshot(tab.key),
+        force: true,
+      });
+      return;
+    }
+
+    if (pick === "Merge…") {
+      const [panel] = this.panels.get(document) ?? [];
+      panel?.reveal();
+      this.postToDocument(document, {
+        type: "merge",
+        key: tab.key,
+        filename: tab.filename,
+        theirs,
+        mine,
+      });
+      return;
+    }
+
+    // Keep Mine / 닫기: 편집 유지 (저장하면 디스크 내용을 덮어씀)
+  }
+
+  private postToDocument(document: WizFolderDocument, msg: any) {
+    for (const panel of this.panels.get(document) ?? []) {
+      panel.webview.postMessage(msg);
+    }
+  }
+
+  async resolveCustomEditor(
+    document: WizFolderDocument,
+    webviewPanel: vscode.WebviewPanel,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    webviewPanel.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [
+        this.context.extensionUri,
+        vscode.Uri.joinPath(this.context.extensionUri, "media"),
+      ],
+    };
+
+    const panels = this.panels.get(document) ?? new Set();
+    panels.add(webviewPanel);
+    this.panels.set(document, panels);
+
+    WizFolderEditorProvider.currentPanel = webviewPanel;
+    webviewPanel.onDidChangeViewState((e) => {
+      if (e.webviewPanel.active) {
+        WizFolderEditorProvider.currentPanel = e.webviewPanel;
+      }
+    });
+    webviewPanel.onDidDispose(() => {
+      panels.delete(webviewPanel);
+      if (WizFolderEditorProvider.currentPanel === webviewPanel) {
+        WizFolderEditorProvider.currentPanel = undefined;
+      }
+    });
+
+    // 폴더 경로 얻기
+    const folderUri = document.folderUri;
+    const folderFsPath = folderUri.fsPath;
+    const folderName = document.folderName;
+
+    const raw = this.getHtml(webviewPanel.webview);
+    // 디버그: 렌더된 HTML을 임시로 저장
+    const debugUri = vscode.Uri.joinPath(
+      this.context.globalStorageUri,
+      "wiz-debug.html"
+    );
+    await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
+    await vscode.workspace.fs.writeFile(debugUri, Buffer.from(raw, "utf8"));
+    console.log("[wiz] debug html:", debugUri.fsPath);
+    webviewPanel.webview.html = sanitizeForWebview(raw);
+
+    const post = (msg: any) => webviewPanel.webview.postMessage(msg);
+    post({
+      type: "init",
+      folderName,
+      tabs: document.tabs,
+      dirtyKeys: document.dirtyKeys(),
+    });
+    void wizIndex
+      ?.whenReady()
+      .then(() => post({ type: "wizTags", items: currentWizTags() }));
+
+    // backup(hot exit)에서 복구된 편집이 있으면 바로 dirty 표시
+    if (document.isDirty) {
+      void this.syncDirty(document);
+      this._onDidChangeDirtyFolder.fire(document.folderUri);
+    }
+
+    // webview <-> extension 메시지
+    webviewPanel.webview.onDidReceiveMessage(async (msg) => {
+      if (msg?.type === "read") {
+        const tab = document.tab(msg.key);
+        if (!tab) return;
+
+        post({
+          type: "content",
+          key: tab.key,
+          filename: tab.filename,
+          ...document.snapshot(tab.key),
+          force: true,
+        });
+        return;
+      }
+
+      // ✅ 편집 -> 문서 상태 반영 (VS Code 탭 dirty 표시)
+      if (msg?.type === "edit") {
+        await this.applyEdit(document, String(msg.key), String(msg.text ?? ""));
+        return;
+      }
+
+      // 활성 탭만 저장 (Ctrl/Cmd+S)
+      if (msg?.type === "write") {
+        const tab = document.tab(msg.key);
+        if (!tab) return;
+
+        const text = await document.saveTab(tab.key, msg.text ?? "");
+        post({ type: "saved", key: tab.key, filename: tab.filename, text });
+
+        // 남은 편집이 없으면 VS Code 쪽 dirty도 정리
+        await this.syncDirty(document);
+        return;
+      }
+
+      if (msg?.type === "saveAll") {
+        await this.saveAll(document);
+        return;
+      }
+
+      // ✅ Monaco Ctrl/Cmd+click (wiz-* 태그) -> 해당 wiz 폴더 editor로 전환
+      if (msg?.type === "openDefinition") {
+        const wizFolder = await findWizFolderByTag(String(msg.tag ?? ""));
+        if (!wizFolder) {
+          post({ type: "status", text: `Definition not found: ${msg.tag}` });
+          return;
+        }
+        await vscode.commands.executeCommand(
+          "vscode.openWith",
+          await ensureWizEntry(wizFolder),
+          WizFolderEditorProvider.viewType
+        );
+        return;
+      }
+
+      if (msg?.type === "findUsages") {
+        await vscode.commands.executeCommand("wiz.findUsages", folderUri);
+        return;
+      }
+
+      // ✅ Info 탭(app.json) 편집 중 검증 -> Monaco marker
+      if (msg?.type === "validate") {
+        const tab = document.tab(msg.key);
+        if (tab?.filename !== "app.json") return;
+
+        const text = String(msg.text ?? "");
+        const issues = validateAppJson(text, path.dirname(folderFsPath));
+
+        // ng drift: view.ts 탭이 있으면 편집 중인 내용 기준
+        const viewTab = document.tabs.find((t) => t.filename === "view.ts");
+        const viewTs = viewTab ? document.snapshot(viewTab.key) : undefined;
+        const members =
+          viewTs && !viewTs.missing
+            ? parseNgMembers(viewTs.edited ?? viewTs.text)
+            : await readNgMembers(folderUri);
+        if (members) issues.push(...ngDriftIssues(text, members));
+
+        post({
+          type: "markers",
+          key: tab.key,
+          markers: toMonacoMarkers(text, issues),
+        });
+        return;
+      }
+      // ✅ 드롭된 값(문자열/경로)을 "wiz 폴더"로 최대한 정확히 복원
+      function stripVsCodeSuffix(p: string) {
+        // "/path/to/foo$0" 같은 suffix 제거
+        return p.replace(/\$\d+$/, "");
+      }
+
+      async function resolveDroppedToWizFolder(
+        msg: any
+      ): Promise<vscode.Uri | null> {
+        // 1) webview가 fsPath를 줬으면 최우선
+        let rawPath: string | null = null;
+
+        if (typeof msg?.path === "string" && msg.path.trim()) {
+          rawPath = stripVsCodeSuffix(msg.path.trim());
+        }
+
+        // 2) uri 문자열로 왔으면 파싱 시도
+        let dropped: vscode.Uri | null = null;
+
+        if (rawPath) {
+          dropped = vscode.Uri.file(rawPath);
+        } else if (msg?.uri) {
+          const raw = String(msg.uri).trim();
+
+          // "/Users/..." 같은 순수 경로로 오는 케이스도 있음
+          if (raw.startsWith("/")) {
+            dropped = vscode.Uri.file(stripVsCodeSuffix(raw));
+          } else {
+            try {
+              const parsed = vscode.Uri.parse(raw);
+
+              if (parsed.scheme === "file") {
+                dropped = parsed;
+              } else if (
+                parsed.scheme === "vscode-file" ||
+                parsed.scheme === "vscode-resource"
+              ) {
+                if (parsed.path?.startsWith("/"))
+                  dropped = vscode.Uri.file(stripVsCodeSuffix(parsed.path));
+              } else if (
+                parsed.scheme === "http" ||
+                parsed.scheme === "https"
+              ) {
+                if (parsed.path?.startsWith("/"))
+                  dropped = vscode.Uri.file(stripVsCodeSuffix(parsed.path));
+              }
+            } catch {
+              // 마지막 fallback: 그냥 파일 경로로 취급
+              if (raw.includes("/"))
+                dropped = vscode.Uri.file(stripVsCodeSuffix(raw));
+            }
+          }
+        }
+
+        if (!dropped) return null;
+
+        // 3) ".wizpage"를 드롭한 경우 => 부모가 wiz 폴더
+        if (path.basename(dropped.fsPath) === ".wizpage") {
+          return vscode.Uri.file(path.dirname(dropped.fsPath));
+        }
+
+        // 4) 파일이면 부모 폴더, 폴더면 그대로
+        const st = await statSafe(dropped);
+        const candidateFolder =
+          st &&
+          (st.type & vscode.FileType.Directory) === vscode.FileType.Directory
+            ? dropped
+            : vscode.Uri.file(path.dirname(dropped.fsPath));
+
+        return candidateFolder;
+      }
+
+      // 드롭한 탭이 HTML이면 요소 문법, 아니면 pug
+      const templateSyntax = (key: unknown): TemplateSyntax =>
+        document.tab(String(key ?? ""))?.language === "html" ? "html" : "pug";
+
+      if (msg?.type === "requestTemplate") {
+        try {
+          const wizFolder = await resolveDroppedToWizFolder(msg);
+          console.log(
+            "[requestTemplate] resolved wizFolder:",
+            wizFolder?.fsPath,
+            msg
+          );
+
+          if (!wizFolder) {
+            post({ type: "template", text: "", missing: true });
+            return;
+          }
+
+          // ✅ 진짜 wiz 폴더인지 체크
+          if (!(await isWizFolder(wizFolder))) {
+            post({ type: "template", text: "", missing: true });
+            return;
+          }
+
+          const { text, missing, ng } =
+            await getTemplateFromWizFolder(wizFolder);
+
+          // ✅ "app.json 전체"를 보내는 실수 방지: template은 보통 짧은 한 줄
           // 혹시 실수로 전체 json이 들어오면 여기서 차단해도 됨(선택)
           // if (String(text).trim().startsWith("{")) { ... }
 
-          post({ type: "template", text, missing });
-        } catch (e: any) {
-          console.error("[requestTemplate] failed", e);
-          post({ type: "template", text: "", missing: true });
-        }
-        return;
-      }
+          post({
+            type: "template",
+            text,
+            missing,
+            snippet: buildTemplateSnippet(text, ng, templateSyntax(msg.key)),
+          });
+        } catch (e: any) {
+          console.error("[requestTemplate] failed", e);
+          post({ type: "template", text: "", missing: true });
+        }
+        return;
+      }
+
+      if (msg?.type === "requestTemplateFromLastDrag") {
+        try {
+          const dragged = this.dnd.getLastDraggedUris(); // ✅ 위에서 만든 dnd 인스턴스 사용
+          if (!dragged?.length) {
+            post({ type: "template", text: "", missing: true });
+            return;
+          }
+
+          // 여러 개면 첫 번째만 처리 (원하면 loop)
+          const first = dragged[0];
+
+          // wiz folder인지 판별: folder면 그대로, file이면 부모
+          const st = await statSafe(first);
+          const candidateFolder =
+            st &&
+            (st.type & vscode.FileType.Directory) === vscode.FileType.Directory
+              ? first
+              : vscode.Uri.file(path.dirname(first.fsPath));
+
+          if (!(await isWizFolder(candidateFolder))) {
+            post({ type: "template", text: "", missing: true });
+            return;
+          }
+
+          const { text, missing, ng } =
+            await getTemplateFromWizFolder(candidateFolder);
+          post({
+            type: "template",
+            text,
+            missing,
+            snippet: buildTemplateSnippet(text, ng, templateSyntax(msg.key)),
+          });
+        } catch (e) {
+          console.error("[requestTemplateFromLastDrag] failed", e);
+          post({ type: "template", text: "", missing: true });
+        }
+        return;
+      }
+    });
+
+    // 처음 열릴 때 Pug를 기본 로드
+    post({ type: "openTab", key: "pug" });
+  }
+
+  private getNonce(): string {
+    return crypto.randomBytes(16).toString("hex");
+  }
+
+  private getHtml(webview: vscode.Webview): string {
+    const nonce = this.getNonce();
+
+    const mediaRoot = vscode.Uri.joinPath(this.context.extensionUri, "media");
+
+    // wiz assets are under media/wiz/
+    const wizRoot = vscode.Uri.joinPath(mediaRoot, "wiz");
+
+    const cssUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(wizRoot, "wiz.css")
+    );
+    const monacoBootstrapUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(wizRoot, "monaco-bootstrap.js")
+    );
+    const appJsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(wizRoot, "app.js")
+    );
+
+    const monacoVs = vscode.Uri.joinPath(mediaRoot, "monaco", "vs");
+    const monacoBaseUri = webview.asWebviewUri(monacoVs).toString();
+    const loaderUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(monacoVs, "loader.js")
+    );
+
+    return `<!doctype html>
+      <html lang="en">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width,initial-scale=1" />
+
+        <meta http-equiv="Content-Security-Policy"
+          content="
+            default-src 'none';
+            img-src ${webview.cspSource} data:;
+            style-src ${webview.cspSource} 'unsafe-inline';
+            font-src ${webview.cspSource} data:;
+            script-src ${webview.cspSource} 'nonce-${nonce}' blob:;
+            worker-src blob:;
+            connect-src 'none';
+          ">
+
+        <link rel="stylesheet" href="${cssUri}">
+      </head>
+
+      <body>
+        <div class="top">
+          <div class="title" id="folderTitle">Wiz Folder</div>
+          <div class="hint" id="fileHint"></div>
+          <div class="dirty-summary" id="dirtySummary"></div>
+          <div class="actions">
+            <button class="action" id="saveAll" hidden>Save All</button>
+            <button class="action" id="findUsages" hidden>Find Usages</button>
+          </div>
+        </div>
+
+        <div class="tabbar" id="tabs"></div>
+
+        <div class="main">
+          <div id="editor"></div>
+          <div class="merge" id="merge" hidden>
+            <div class="merge-bar">
+              <span class="merge-title" id="mergeTitle"></span>
+              <div class="actions">
+                <button class="action" id="mergeApply">Apply Merge</button>
+                <button class="action" id="mergeCancel">Cancel</button>
+              </div>
+            </div>
+            <div id="mergeEditor"></div>
+          </div>
+          <div class="status" id="status"></div>
+        </div>
+
+        <script nonce="${nonce}" src="${loaderUri}"></script>
+        <script nonce="${nonce}">
+          require.config({ paths: { vs: "${monacoBaseUri}" }});
+          window.__WIZ_MONACO_BASE__ = "${monacoBaseUri}";
+        </script>
+
+        <script nonce="${nonce}" src="${monacoBootstrapUri}"></script>
+        <script nonce="${nonce}" src="${appJsUri}"></script>
+      </body>
+      </html>`;
+  }
+}
+
+async function uriExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parentDirUri(uri: vscode.Uri): vscode.Uri {
+  return vscode.Uri.file(path.dirname(uri.fsPath));
+}
+
+async function promptName(title: string, placeHolder: string, value?: string) {
+  return vscode.window.showInputBox({
+    title,
+    placeHolder,
+    value,
+    validateInput: (v) => {
+      if (!v || !v.trim()) return "이름을 입력해주세요.";
+      if (v.includes("/") || v.includes("\\"))
+        return "경로 구분자(/, \\)는 사용할 수 없습니다.";
+      return null;
+    },
+  });
+}
+
+async function createFileUndoable(fileUri: vscode.Uri, contents = "") {
+  const data = Buffer.from(contents, "utf8");
+  const edit = new vscode.WorkspaceEdit();
+  edit.createFile(fileUri, {
+    overwrite: false,
+    ignoreIfExists: false,
+    contents: data,
+  });
+  const ok = await vscode.workspace.applyEdit(edit);
+  if (!ok) throw new Error("applyEdit failed");
+
+  pushOp({ type: "createFile", uri: fileUri, contents: data });
+  console.log("[pushOp] createFile", undoStack.length);
+}
+
+async function deleteFileUndoable(fileUri: vscode.Uri) {
+  const st = await statSafe(fileUri);
+  if (!st) return;
+  if ((st.type & vscode.FileType.Directory) === vscode.FileType.Directory)
+    return;
+
+  const contents = await readFileSafe(fileUri);
+  if (!contents) return;
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.deleteFile(fileUri, { recursive: false, ignoreIfNotExists: true });
+
+  const ok = await vscode.workspace.applyEdit(edit);
+  if (!ok) throw new Error("applyEdit failed");
+
+  pushOp({ type: "deleteFile", uri: fileUri, contents });
+}
+
+async function renameUndoable(oldUri: vscode.Uri, newUri: vscode.Uri) {
+  const edit = new vscode.WorkspaceEdit();
+  edit.renameFile(oldUri, newUri, { overwrite: false });
+  const ok = await vscode.workspace.applyEdit(edit);
+  if (!ok) throw new Error("applyEdit failed");
+
+  pushOp({ type: "rename", from: oldUri, to: newUri });
+}
+
+async function mkdirUndoable(folderUri: vscode.Uri) {
+  await vscode.workspace.fs.createDirectory(folderUri);
+  pushOp({ type: "mkdir", uri: folderUri });
+}
+
+async function rmdirUndoable(folderUri: vscode.Uri) {
+  const snap = await snapshotDir(folderUri);
+  await vscode.workspace.fs.delete(folderUri, { recursive: true });
+  pushOp({ type: "rmdir", uri: folderUri, snapshot: snap });
+}
+
+// 텍스트 에디터 또는 Wiz Folder Editor 같은 custom editor 탭
+function activeEditorUri(): vscode.Uri | undefined {
+  const input = vscode.window.tabGroups.activeTabGroup.activeTab?.input;
+  if (
+    input instanceof vscode.TabInputText ||
+    input instanceof vscode.TabInputCustom
+  ) {
+    return input.uri;
+  }
+  return vscode.window.activeTextEditor?.document.uri;
+}
+
+/**
+ * 명령 대상 workspace folder (multi-root)
+ * - 트리 항목(uri/parent) -> 활성 에디터 -> 그래도 모르면 선택
+ */
+async function resolveWorkspaceFolder(item?: {
+  uri?: vscode.Uri;
+  parent?: vscode.Uri;
+}): Promise<vscode.WorkspaceFolder | undefined> {
+  const wss = vscode.workspace.workspaceFolders ?? [];
+  if (wss.length <= 1) return wss[0];
+
+  for (const hint of [item?.uri, item?.parent, activeEditorUri()]) {
+    const ws = hint && vscode.workspace.getWorkspaceFolder(hint);
+    if (ws) return ws;
+  }
+
+  return vscode.window.showWorkspaceFolderPick({
+    placeHolder: "어느 workspace folder에서 실행할까요?",
+  });
+}
+
+// src와 destDir가 서로 다른 workspace folder
+function isCrossRoot(src: vscode.Uri, destDir: vscode.Uri): boolean {
+  const from = vscode.workspace.getWorkspaceFolder(src);
+  const to = vscode.workspace.getWorkspaceFolder(destDir);
+  return !!from && !!to && from.uri.toString() !== to.uri.toString();
+}
+
+/**
+ * 다른 workspace folder로 옮기기는 명시적으로 확인
+ * - 해당 없으면 "move", 취소하면 undefined
+ * - "copy"면 다른 폴더로 가는 항목만 복사 (원본 유지)
+ */
+async function confirmCrossRootMove(
+  sources: vscode.Uri[],
+  destDir: vscode.Uri
+): Promise<"move" | "copy" | undefined> {
+  const crossing = sources.filter((u) => isCrossRoot(u, destDir));
+  if (!crossing.length) return "move";
+
+  const from = [
+    ...new Set(
+      crossing.map((u) => vscode.workspace.getWorkspaceFolder(u)?.name)
+    ),
+  ].join(", ");
+  const to = vscode.workspace.getWorkspaceFolder(destDir)?.name;
+
+  const choice = await vscode.window.showWarningMessage(
+    `${crossing.length}개 항목을 다른 workspace folder로 옮깁니다 (${from} → ${to}).`,
+    {
+      modal: true,
+      detail: crossing
+        .slice(0, 10)
+        .map((u) => vscode.workspace.asRelativePath(u, true))
+        .join("\n"),
+    },
+    "Move",
+    "Copy"
+  );
+  return choice === "Move" ? "move" : choice === "Copy" ? "copy" : undefined;
+}
+
+function getBaseUriFromTreeItem(
+  ws: vscode.WorkspaceFolder,
+  item?: any
+): vscode.Uri {
+  let baseUri = ws.uri;
+
+  if (item?.kind === "modeGroup") {
+    baseUri = item.parent ?? ws.uri;
+  } else if (item?.uri) {
+    switch (item.kind) {
+      case "workspace":
+      case "folder":
+        baseUri = item.uri;
+        break;
+      case "file":
+      case "wizFolder":
+        baseUri = parentDirUri(item.uri);
+        break;
+    }
+  }
+
+  return baseUri;
+}
+
+/**
+ * <scaffoldDir>/<mode>/ 바로 아래 파일들 (이름 -> 내용)
+ * - parentDir가 속한 workspace folder 기준
+ * - 폴더가 없거나 비었으면 null (기본 scaffold 사용)
+ */
+async function readScaffoldFiles(
+  parentDir: vscode.Uri,
+  mode: WizMode
+): Promise<Map<string, string> | null> {
+  const ws =
+    vscode.workspace.getWorkspaceFolder(parentDir) ??
+    vscode.workspace.workspaceFolders?.[0];
+  if (!ws) return null;
+
+  const { scaffoldDir } = getSeasonConfig();
+  const dir = vscode.Uri.joinPath(ws.uri, scaffoldDir, mode);
+
+  let entries: [string, vscode.FileType][];
+  try {
+    entries = await vscode.workspace.fs.readDirectory(dir);
+  } catch {
+    return null;
+  }
+
+  const files = new Map<string, string>();
+  for (const [name, type] of entries) {
+    if ((type & vscode.FileType.File) !== vscode.FileType.File) continue;
+    const text = await readTextSafe(vscode.Uri.joinPath(dir, name));
+    if (text !== null) files.set(name, text);
+  }
+  return files.size ? files : null;
+}
+
+async function createWizPageUndoable(
+  parentDir: vscode.Uri,
+  folderName: string,
+  mode: WizMode,
+  id: string,
+  namespace: string
+) {
+  const wizDir = vscode.Uri.joinPath(parentDir, folderName);
+
+  if (await uriExists(wizDir)) {
+    throw new Error("이미 같은 이름의 폴더가 있습니다.");
+  }
+
+  // portal 경로 오류 등은 폴더 만들기 전에
+  const template = buildTemplate(mode, namespace, parentDir.fsPath);
+  const vars = scaffoldVars({
+    mode,
+    id,
+    namespace,
+    template,
+    folderName,
+    baseFsPath: parentDir.fsPath,
+  });
+
+  // ✅ 프로젝트 scaffold가 있으면 그걸로, 없으면 기본 파일
+  const scaffold = await readScaffoldFiles(parentDir, mode);
+  const files = new Map<string, string>(
+    scaffold
+      ? [...scaffold].map(([name, text]) => [name, renderScaffold(text, vars)])
+      : Object.entries(DEFAULT_WIZ_FILES)
+  );
+  if (!files.has(".wizpage")) files.set(".wizpage", ""); // 편집기 진입점
+
+  // app.json은 mode/id/namespace/template 보장
+  const scaffoldJson = files.get("app.json");
+  let appJson = scaffoldJson ? scaffoldAppJson(scaffoldJson, vars) : null;
+  if (scaffoldJson && !appJson) {
+    vscode.window.showWarningMessage(
+      "scaffold의 app.json이 올바른 JSON이 아니어서 기본 app.json을 사용했습니다."
+    );
+  }
+  appJson ??= buildAppJson(mode, id, namespace, template);
+  files.delete("app.json");
+
+  const ops: FsOp[] = [];
+
+  await vscode.workspace.fs.createDirectory(wizDir);
+  ops.push({ type: "mkdir", uri: wizDir });
+
+  for (const [name, text] of files) {
+    const fileUri = vscode.Uri.joinPath(wizDir, name);
+    const data = Buffer.from(text, "utf8");
+    await vscode.workspace.fs.writeFile(fileUri, data);
+    ops.push({ type: "createFile", uri: fileUri, contents: data });
+  }
+
+  {
+    const fileUri = vscode.Uri.joinPath(wizDir, "app.json");
+    const data = Buffer.from(appJson, "utf8");
+    await vscode.workspace.fs.writeFile(fileUri, data);
+    ops.push({ type: "createFile", uri: fileUri, contents: data });
+  }
+
+  pushOp({ type: "batch", ops });
+  return wizDir;
+}
+
+async function promptWizId(
+  mode: WizMode,
+  opts: {
+    title: string;
+    value?: string;
+    // 기본 검사 통과 후 추가 검사 (예: 기존 페이지와 중복)
+    validate?: (value: string) => string | null;
+  }
+) {
+  const prefix = makeDefaultIdPrefix(mode);
+
+  // mode별 입력창
+  return vscode.window.showInputBox({
+    title: opts.title,
+    placeHolder: mode === "portal" ? "예: nav.admin" : `예: ${mode}.nav.admin`,
+    value: opts.value ?? (mode === "portal" ? "" : prefix),
+    validateInput: (v) => {
+      if (!v || !v.trim()) return "이름을 입력해주세요.";
+      if (v.includes("/") || v.includes("\\"))
+        return "경로 구분자(/, \\)는 사용할 수 없습니다.";
+
+      const s = v.trim();
+
+      if (mode !== "portal") {
+        if (!s.startsWith(prefix))
+          return `반드시 "${prefix}"로 시작해야 합니다.`;
+        if (s === prefix)
+          return `"${prefix}" 뒤에 namespace를 붙여주세요. (예: ${mode}.nav.admin)`;
+        if (s.endsWith(".")) return "마지막은 '.'로 끝날 수 없습니다.";
+      }
+
+      // portal은 그냥 허용(원하면 '.' 금지/허용 등 정책 추가 가능)
+      return opts.validate?.(s) ?? null;
+    },
+  });
+}
+
+type WorkspaceTemplateUsage = {
+  uri: vscode.Uri;
+  text: string;
+  usages: TemplateUsage[];
+};
+
+// 워크스페이스 전체 view.pug / view.html 에서 태그 사용처 찾기
+async function findTemplateUsagesInWorkspace(
+  tag: string
+): Promise<WorkspaceTemplateUsage[]> {
+  if (!tag) return [];
+
+  const uris = await vscode.workspace.findFiles(
+    "**/{view.pug,view.html}",
+    "**/node_modules/**"
+  );
+
+  const out: WorkspaceTemplateUsage[] = [];
+  for (const uri of uris) {
+    const buf = await readFileSafe(uri);
+    if (!buf) continue;
+    const text = Buffer.from(buf).toString("utf8");
+    const usages = findTemplateUsages(text, tag);
+    if (usages.length) out.push({ uri, text, usages });
+  }
+
+  out.sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath));
+  return out;
+}
+
+// template 사용처를 References(peek)로 표시
+async function showTemplateUsages(wizFolder: vscode.Uri) {
+  const { text, missing } = await getTemplateFromWizFolder(wizFolder);
+  const tag = templateTagName(text);
+  if (missing || !tag) {
+    vscode.window.showWarningMessage("app.json에 template이 없습니다.");
+    return;
+  }
+
+  const found = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: `Finding usages of ${tag}`,
+    },
+    () => findTemplateUsagesInWorkspace(tag)
+  );
+
+  const locations = found.flatMap((f) =>
+    f.usages.map(
+      (u) =>
+        new vscode.Location(
+          f.uri,
+          new vscode.Range(u.line, u.character, u.line, u.character + u.length)
+        )
+    )
+  );
+
+  if (!locations.length) {
+    vscode.window.showInformationMessage(`${tag} 사용처가 없습니다.`);
+    return;
+  }
+
+  // 기준 위치: app.json의 template 값
+  const appJsonUri = vscode.Uri.joinPath(wizFolder, "app.json");
+  const appJsonText = Buffer.from(
+    (await readFileSafe(appJsonUri)) ?? new Uint8Array()
+  ).toString("utf8");
+  const range = findJsonValueRange(appJsonText, "template");
+  const pos = offsetToLineCol(appJsonText, range?.start ?? 0);
+
+  await vscode.commands.executeCommand(
+    "editor.action.showReferences",
+    appJsonUri,
+    new vscode.Position(pos.line, pos.character),
+    locations
+  );
+}
+
+// wiz 폴더를 custom editor로 여는 진입 파일(.wizpage) 보장
+async function ensureWizEntry(wizFolder: vscode.Uri): Promise<vscode.Uri> {
+  const entryUri = vscode.Uri.joinPath(wizFolder, ".wizpage");
+  if (!(await exists(entryUri))) {
+    await vscode.workspace.fs.writeFile(entryUri, Buffer.from("", "utf8"));
+  }
+  return entryUri;
+}
+
+// wiz-* 태그 -> 해당 template을 가진 wiz 폴더
+// - 인덱스 기준, 첫 스캔이 끝나기 전에만 app.json 전체 검색
+async function findWizFolderByTag(tag: string): Promise<vscode.Uri | null> {
+  if (!tag.startsWith("wiz-")) return null;
+
+  if (wizIndex?.isReady) {
+    const entry = findWizFolderForTag(wizIndex.index.all(), tag);
+    return entry ? vscode.Uri.file(entry.fsPath) : null;
+  }
+
+  const uris = await vscode.workspace.findFiles(
+    "**/app.json",
+    "**/node_modules/**"
+  );
+  for (const appJsonUri of uris) {
+    const wizFolder = parentDirUri(appJsonUri);
+    const json = await readAppJson(wizFolder);
+    if (!json) continue;
+
+    const tags = templateTagsForAppJson(json, path.dirname(wizFolder.fsPath));
+    if (tags.includes(tag)) return wizFolder;
+  }
+  return null;
+}
+
+// 정의 = 대상 wiz 폴더 app.json의 template (peek/hover에서도 파일을 만들지 않음)
+class WizTemplateDefinitionProvider implements vscode.DefinitionProvider {
+  async provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.LocationLink[] | undefined> {
+    const lineText = document.lineAt(position.line).text;
+    const hit = tagAtPosition(lineText, position.character);
+    if (!hit) return;
+
+    const wizFolder = await findWizFolderByTag(hit.tag);
+    if (!wizFolder) return;
+
+    const appJsonUri = vscode.Uri.joinPath(wizFolder, "app.json");
+    const text = (await readTextSafe(appJsonUri)) ?? "";
+    const range = findJsonValueRange(text, "template");
+    const start = offsetToLineCol(text, range?.start ?? 0);
+    const end = offsetToLineCol(text, range?.end ?? 0);
+    return [
+      {
+        originSelectionRange: new vscode.Range(
+          position.line,
+          hit.start,
+          position.line,
+          hit.end
+        ),
+        targetUri: appJsonUri,
+        targetRange: new vscode.Range(
+          start.line,
+          start.character,
+          end.line,
+          end.character
+        ),
+      },
+    ];
+  }
+}
+
+/**
+ * oldTag 사용처 미리보기 (체크 해제한 파일은 건너뜀)
+ * - 사용처가 없거나 태그가 같으면 []
+ * - 취소하면 undefined
+ */
+async function pickTemplateUsageFiles(
+  oldTag: string,
+  newTag: string,
+  title: string
+): Promise<WorkspaceTemplateUsage[] | undefined> {
+  if (!oldTag || oldTag === newTag) return [];
+
+  const found = await findTemplateUsagesInWorkspace(oldTag);
+  if (!found.length) return [];
+
+  const picked = await vscode.window.showQuickPick(
+    found.map((f) => ({
+      label: vscode.workspace.asRelativePath(f.uri),
+      description: `${f.usages.length}곳`,
+      detail: f.usages[0].lineText.trim(),
+      picked: true,
+      usage: f,
+    })),
+    {
+      title: `${title}: ${oldTag} → ${newTag}`,
+      placeHolder: "template 사용처를 함께 변경할 파일을 선택하세요.",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    }
+  );
+  return picked?.map((p) => p.usage);
+}
+
+// 사용처 치환 (쓴 파일마다 ops에 writeFile op 추가, 중간에 실패해도 쓴 것까지는 남음)
+async function rewriteTemplateUsages(
+  ops: FsOp[],
+  targets: WorkspaceTemplateUsage[],
+  oldTag: string,
+  newTag: string
+): Promise<void> {
+  for (const t of targets) {
+    const next = replaceTemplateUsages(t.text, oldTag, newTag);
+    if (!next.count) continue;
+
+    const before = Buffer.from(t.text, "utf8");
+    const after = Buffer.from(next.text, "utf8");
+    await vscode.workspace.fs.writeFile(t.uri, after);
+    ops.push({ type: "writeFile", uri: t.uri, before, after });
+  }
+}
+
+/**
+ * wiz 폴더를 destDir로 옮길 때 바뀌는 app.json identity
+ * - portal은 portal/<app> 위치에 따라 template이 달라짐
+ * - 바뀔 게 없으면 (app.json 없음/알 수 없는 mode 포함) null
+ * - portal인데 portal/<app> 밖으로 가면 buildTemplate이 throw
+ */
+async function planWizFolderMove(wizFolder: vscode.Uri, destDir: vscode.Uri) {
+  const json = await readAppJson(wizFolder);
+  if (!json || !isWizMode(json.mode)) return null;
+  const mode: WizMode = json.mode;
+
+  const derived = deriveIdAndNamespace(
+    mode,
+    typeof json.id === "string" && json.id
+      ? json.id
+      : path.basename(wizFolder.fsPath)
+  );
+  const id = typeof json.id === "string" && json.id ? json.id : derived.id;
+  const namespace =
+    typeof json.namespace === "string" ? json.namespace : derived.namespace;
+  const template = buildTemplate(mode, namespace, destDir.fsPath);
+
+  const oldTemplate = String(json.template ?? "");
+  if (oldTemplate === template) return null;
+
+  return {
+    identity: { id, namespace, template },
+    oldTag: templateTagName(oldTemplate),
+    newTag: templateTagName(template),
+  };
+}
+
+/**
+ * Wiz Page 리팩터링 rename
+ * - app.json id/namespace/template 재계산
+ * - 폴더 rename (폴더명 = id)
+ * - 다른 wiz 폴더들의 template 사용처 치환
+ * => 전부 하나의 batch
+ */
+async function renameWizPageUndoable(wizFolder: vscode.Uri) {
+  const json = await readAppJson(wizFolder);
+  if (!json) {
+    throw new Error("app.json을 읽을 수 없습니다.");
+  }
+  if (!isWizMode(json.mode)) {
+    throw new Error(`알 수 없는 mode입니다: "${json.mode ?? ""}"`);
+  }
+  const mode: WizMode = json.mode;
+
+  const oldName = path.basename(wizFolder.fsPath);
+  const rawId = await promptWizId(mode, {
+    title: "Rename Wiz Page",
+    value: typeof json.id === "string" && json.id ? json.id : oldName,
+  });
+  if (!rawId) return;
+
+  const parentDir = parentDirUri(wizFolder);
+  const { id, namespace } = deriveIdAndNamespace(mode, rawId);
+  const template = buildTemplate(mode, namespace, parentDir.fsPath);
+
+  const newFolder = vscode.Uri.joinPath(parentDir, id);
+  const folderChanged = newFolder.fsPath !== wizFolder.fsPath;
+  if (folderChanged && (await uriExists(newFolder))) {
+    throw new Error("이미 같은 이름의 폴더가 있습니다.");
+  }
+
+  const oldTag = templateTagName(String(json.template ?? ""));
+  const newTag = templateTagName(template);
+
+  // 1) 사용처 미리보기 (체크 해제한 파일은 건너뜀)
+  const targets = await pickTemplateUsageFiles(
+    oldTag,
+    newTag,
+    "Rename Wiz Page"
+  );
+  if (!targets) return;
+
+  const ops: FsOp[] = [];
+
+  try {
+    // 2) 사용처 치환
+    await rewriteTemplateUsages(ops, targets, oldTag, newTag);
+
+    // 3) app.json
+    const appJsonUri = vscode.Uri.joinPath(wizFolder, "app.json");
+    const before = (await readFileSafe(appJsonUri)) ?? new Uint8Array();
+    const after = rewriteAppJsonIdentity(before, { id, namespace, template });
+    await vscode.workspace.fs.writeFile(appJsonUri, after);
+    ops.push({ type: "writeFile", uri: appJsonUri, before, after });
+
+    // 4) 폴더 rename (마지막: undo 시 가장 먼저 되돌려짐)
+    if (folderChanged) {
+      await vscode.workspace.fs.rename(wizFolder, newFolder, {
+        overwrite: false,
+      });
+      ops.push({ type: "rename", from: wizFolder, to: newFolder });
+    }
+  } finally {
+    // 중간에 실패해도 이미 바뀐 파일은 Undo로 되돌릴 수 있게 기록
+    if (ops.length) {
+      pushOp({
+        type: "batch",
+        ops,
+        label: `Renamed Wiz page ${oldName} to ${id} (${targets.length} usage files)`,
+      });
+    }
+  }
+
+  vscode.window.showInformationMessage(
+    `Wiz Page 이름 변경: ${oldName} → ${id} (사용처 ${targets.length}개 파일)`
+  );
+  return newFolder;
+}
+
+function rewriteAppJsonIdentity(
+  data: Uint8Array,
+  identity: { id: string; namespace: string; template: string }
+): Uint8Array {
+  return Buffer.from(
+    updateAppJsonIdentity(Buffer.from(data).toString("utf8"), identity),
+    "utf8"
+  );
+}
+
+/**
+ * src 폴더 전체를 dst로 복사하고 (pushOp용) mkdir/createFile op들을 돌려줌
+ * - rewrite: 상대경로별로 내용 바꿔서 쓰기 (app.json identity 등)
+ */
+async function copyDirWithOps(
+  src: vscode.Uri,
+  dst: vscode.Uri,
+  rewrite?: (rel: string, data: Uint8Array) => Uint8Array
+): Promise<FsOp[]> {
+  // 먼저 전부 읽어둠 (dst가 src 안쪽이어도 안전)
+  const snap = await snapshotDir(src);
+  const ops: FsOp[] = [];
+
+  // dirs는 상위 -> 하위 순서, "" = dst 자신
+  for (const d of snap.dirs) {
+    const u = d ? vscode.Uri.joinPath(dst, d) : dst;
+    await vscode.workspace.fs.createDirectory(u);
+    ops.push({ type: "mkdir", uri: u });
+  }
+
+  for (const f of snap.files) {
+    const u = vscode.Uri.joinPath(dst, f.rel);
+    const raw = await readPayload(f.contents);
+    const data = rewrite ? rewrite(f.rel, raw) : raw;
+    await vscode.workspace.fs.writeFile(u, data);
+    ops.push({ type: "createFile", uri: u, contents: data });
+  }
+
+  return ops;
+}
+
+async function duplicateWizPageUndoable(wizFolder: vscode.Uri) {
+  const json = await readAppJson(wizFolder);
+  if (!json) {
+    throw new Error("app.json을 읽을 수 없습니다.");
+  }
+  if (!isWizMode(json.mode)) {
+    throw new Error(`알 수 없는 mode입니다: "${json.mode ?? ""}"`);
+  }
+  const mode: WizMode = json.mode;
+
+  const srcName = path.basename(wizFolder.fsPath);
+  const srcId = typeof json.id === "string" && json.id ? json.id : srcName;
+  const rawId = await promptWizId(mode, {
+    title: `Duplicate Wiz Page: ${srcName}`,
+    value: `${srcId}.copy`,
+  });
+  if (!rawId) return;
+
+  const parentDir = parentDirUri(wizFolder);
+  const { id, namespace } = deriveIdAndNamespace(mode, rawId);
+  const template = buildTemplate(mode, namespace, parentDir.fsPath);
 
-      if (msg?.type === "requestTemplateFromLastDrag") {
-        try {
-          const dragged = this.dnd.getLastDraggedUris(); // ✅ 위에서 만든 dnd 인스턴스 사용
-          if (!dragged?.length) {
-            post({ type: "template", text: "", missing: true });
-            return;
-          }
+  const newFolder = vscode.Uri.joinPath(parentDir, id);
+  if (await uriExists(newFolder)) {
+    throw new Error("이미 같은 이름의 폴더가 있습니다.");
+  }
 
-          // 여러 개면 첫 번째만 처리 (원하면 loop)
-          const first = dragged[0];
+  // app.json은 새 id/namespace/template
+  const ops = await copyDirWithOps(wizFolder, newFolder, (rel, data) =>
+    rel === "app.json"
+      ? rewriteAppJsonIdentity(data, { id, namespace, template })
+      : data
+  );
+  const fileCount = ops.filter((o) => o.type === "createFile").length;
 
-          // wiz folder인지 판별: folder면 그대로, file이면 부모
-          const st = await statSafe(first);
-          const candidateFolder =
-            st &&
-            (st.type & vscode.FileType.Directory) === vscode.FileType.Directory
-              ? first
-              : vscode.Uri.file(path.dirname(first.fsPath));
+  pushOp({
+    type: "batch",
+    ops,
+    label: `Duplicated Wiz page ${srcName} as ${id} (${fileCount} files)`,
+  });
 
-          if (!(await isWizFolder(candidateFolder))) {
-            post({ type: "template", text: "", missing: true });
-            return;
-          }
+  vscode.window.showInformationMessage(`Wiz Page 복제: ${srcName} → ${id}`);
+  return newFolder;
+}
 
-          const { text, missing } =
-            await getTemplateFromWizFolder(candidateFolder);
-          post({ type: "template", text, missing });
-        } catch (e) {
-          console.error("[requestTemplateFromLastDrag] failed", e);
-          post({ type: "template", text: "", missing: true });
-        }
-        return;
-      }
-    });
+// ---- Season Explorer 클립보드 (cut/copy/paste) ----
+type ExplorerClipboard = { mode: "cut" | "copy"; uris: vscode.Uri[] };
+let explorerClipboard: ExplorerClipboard | undefined;
+
+function setExplorerClipboard(next: ExplorerClipboard | undefined) {
+  explorerClipboard = next;
+  // package.json의 paste 메뉴/키 when 조건
+  void vscode.commands.executeCommand(
+    "setContext",
+    "wiz.canPaste",
+    !!next?.uris.length
+  );
+}
 
-    // 처음 열릴 때 Pug를 기본 로드
-    post({ type: "openTab", key: "pug" });
-  }
+function isSameOrInside(child: vscode.Uri, parent: vscode.Uri) {
+  const rel = path.relative(parent.fsPath, child.fsPath);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
 
-  private getNonce(): string {
-    return crypto.randomBytes(16).toString("hex");
-  }
+/**
+ * 붙여넣는 wiz 폴더의 app.json identity를 새로 만들지 물어봄
+ * - Regenerate 선택 시 새 id 입력 -> { id, namespace, template(붙여넣을 위치 기준) }
+ * - 아니면 null (그대로 복사/이동, 잘라내기는 pasteUndoable에서 planWizFolderMove로 template만 재계산)
+ */
+async function promptPastedWizIdentity(
+  wizFolder: vscode.Uri,
+  destDir: vscode.Uri
+) {
+  const json = await readAppJson(wizFolder);
+  if (!json || !isWizMode(json.mode)) return null;
+  const mode: WizMode = json.mode;
+
+  const name = path.basename(wizFolder.fsPath);
+  const pick = await vscode.window.showInformationMessage(
+    `"${name}"의 app.json id/namespace/template을 새로 만들까요?`,
+    "Regenerate",
+    "Keep"
+  );
+  if (pick !== "Regenerate") return null;
 
-  private getHtml(webview: vscode.Webview): string {
-    const nonce = this.getNonce();
+  const rawId = await promptWizId(mode, {
+    title: `Paste Wiz Page: ${name}`,
+    value: typeof json.id === "string" && json.id ? json.id : name,
+  });
+  if (!rawId) return null;
 
-    const mediaRoot = vscode.Uri.joinPath(this.context.extensionUri, "media");
+  const { id, namespace } = deriveIdAndNamespace(mode, rawId);
+  const template = buildTemplate(mode, namespace, destDir.fsPath);
+  return { id, namespace, template };
+}
 
-    // wiz assets are under media/wiz/
-    const wizRoot = vscode.Uri.joinPath(mediaRoot, "wiz");
+async function pasteUndoable(destDir: vscode.Uri) {
+  const clip = explorerClipboard;
+  if (!clip?.uris.length) return;
 
-    const cssUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(wizRoot, "wiz.css")
-    );
-    const monacoBootstrapUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(wizRoot, "monaco-bootstrap.js")
-    );
-    const appJsUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(wizRoot, "app.js")
+  if (await isWizFolder(destDir)) {
+    vscode.window.showInformationMessage(
+      "Wiz folder 내부로 붙여넣기는 지원하지 않습니다."
     );
+    return;
+  }
 
-    const monacoVs = vscode.Uri.joinPath(mediaRoot, "monaco", "vs");
-    const monacoBaseUri = webview.asWebviewUri(monacoVs).toString();
-    const loaderUri = webview.asWebviewUri(
-      vscode.Uri.joinPath(monacoVs, "loader.js")
-    );
+  // 잘라내기를 다른 workspace folder에 붙여넣으면 이동/복사 확인
+  const crossRoot =
+    clip.mode === "cut"
+      ? await confirmCrossRootMove(clip.uris, destDir)
+      : "copy";
+  if (!crossRoot) return;
 
-    return `<!doctype html>
-      <html lang="en">
-      <head>
-        <meta charset="utf-8" />
-        <meta name="viewport" content="width=device-width,initial-scale=1" />
+  const ops: FsOp[] = [];
+  const retagged: Array<{ oldTag: string; newTag: string }> = [];
+  let pasted = 0;
+  let moved = 0;
 
-        <meta http-equiv="Content-Security-Policy"
-          content="
-            default-src 'none';
-            img-src ${webview.cspSource} data:;
-            style-src ${webview.cspSource} 'unsafe-inline';
-            font-src ${webview.cspSource} data:;
-            script-src ${webview.cspSource} 'nonce-${nonce}' blob:;
-            worker-src blob:;
-            connect-src 'none';
-          ">
+  try {
+    for (const src of clip.uris) {
+      if (!(await exists(src))) continue;
 
-        <link rel="stylesheet" href="${cssUri}">
-      </head>
+      const cut =
+        clip.mode === "cut" &&
+        !(crossRoot === "copy" && isCrossRoot(src, destDir));
 
-      <body>
-        <div class="top">
-          <div class="title" id="folderTitle">Wiz Folder</div>
-          <div class="hint" id="fileHint"></div>
-        </div>
+      // 같은 폴더로 잘라내기 = 아무 일도 안 함
+      if (cut && parentDirUri(src).fsPath === destDir.fsPath) {
+        continue;
+      }
+      if (isSameOrInside(destDir, src)) {
+        vscode.window.showInformationMessage(
+          `"${path.basename(src.fsPath)}"를 자기 자신 안으로 붙여넣을 수 없습니다.`
+        );
+        continue;
+      }
 
-        <div class="tabbar" id="tabs"></div>
+      const wiz = await isWizFolder(src);
 
-        <div class="main">
-          <div id="editor"></div>
-          <div class="status" id="status"></div>
-        </div>
+      // 잘라내기 = DnD 이동과 같은 기준 (portal app이 바뀌면 template 재계산)
+      let wizMove: Awaited<ReturnType<typeof planWizFolderMove>> = null;
+      if (cut && wiz) {
+        try {
+          wizMove = await planWizFolderMove(src, destDir);
+        } catch (e: any) {
+          vscode.window.showInformationMessage(
+            `"${path.basename(src.fsPath)}"를 이동할 수 없습니다: ${e?.message ?? String(e)}`
+          );
+          continue;
+        }
+      }
 
-        <script nonce="${nonce}" src="${loaderUri}"></script>
-        <script nonce="${nonce}">
-          require.config({ paths: { vs: "${monacoBaseUri}" }});
-          window.__WIZ_MONACO_BASE__ = "${monacoBaseUri}";
-        </script>
+      const regenerated = wiz
+        ? await promptPastedWizIdentity(src, destDir)
+        : null;
+      const identity = regenerated ?? wizMove?.identity ?? null;
 
-        <script nonce="${nonce}" src="${monacoBootstrapUri}"></script>
-        <script nonce="${nonce}" src="${appJsUri}"></script>
-      </body>
-      </html>`;
+      // identity를 새로 만들면 폴더 이름도 새 id (New Wiz Page와 동일)
+      const baseName = regenerated?.id ?? path.basename(src.fsPath);
+      const dst = await pickNonConflictingUri(destDir, baseName);
+
+      const t = await getFileTypeSafe(src);
+      const isDir =
+        t !== null &&
+        (t & vscode.FileType.Directory) === vscode.FileType.Directory;
+
+      if (cut) {
+        await vscode.workspace.fs.rename(src, dst, { overwrite: false });
+        ops.push({ type: "rename", from: src, to: dst });
+        moved++;
+
+        if (identity) {
+          const appJsonUri = vscode.Uri.joinPath(dst, "app.json");
+          const before = await readFileSafe(appJsonUri);
+          if (before) {
+            const after = rewriteAppJsonIdentity(before, identity);
+            await vscode.workspace.fs.writeFile(appJsonUri, after);
+            ops.push({ type: "writeFile", uri: appJsonUri, before, after });
+            if (!regenerated && wizMove) retagged.push(wizMove);
+          }
+        }
+      } else if (isDir) {
+        ops.push(
+          ...(await copyDirWithOps(src, dst, (rel, data) =>
+            identity && rel === "app.json"
+              ? rewriteAppJsonIdentity(data, identity)
+              : data
+          ))
+        );
+      } else {
+        const data = await vscode.workspace.fs.readFile(src);
+        await vscode.workspace.fs.writeFile(dst, data);
+        ops.push({ type: "createFile", uri: dst, contents: data });
+      }
+
+      pasted++;
+    }
+
+    // template이 바뀐 wiz 폴더들의 사용처 (DnD와 동일, 미리보기에서 선택한 것만)
+    for (const { oldTag, newTag } of retagged) {
+      const targets = await pickTemplateUsageFiles(
+        oldTag,
+        newTag,
+        "Move Wiz Page"
+      );
+      if (!targets?.length) continue;
+      await rewriteTemplateUsages(ops, targets, oldTag, newTag);
+    }
+  } catch (e: any) {
+    // 성공한 것까지만 기록 (DnD와 동일)
+    console.error("[paste] error", e);
+    vscode.window.showErrorMessage(`Paste error: ${e?.message ?? String(e)}`);
   }
+
+  if (!ops.length) return;
+
+  const where = vscode.workspace.asRelativePath(destDir);
+  pushOp({
+    type: "batch",
+    ops,
+    label: `${moved === pasted ? "Moved" : "Copied"} ${pasted} item${pasted === 1 ? "" : "s"} to ${where}`,
+  });
+
+  // 잘라낸 건 한 번만 붙여넣기
+  if (clip.mode === "cut") setExplorerClipboard(undefined);
 }
 
-async function uriExists(uri: vscode.Uri): Promise<boolean> {
+// ---- 여러 항목 삭제/이름 변경 (multi-select) ----
+async function bulkDeleteUndoable(uris: vscode.Uri[]) {
+  // 선택한 폴더 안의 항목은 폴더와 함께 지워지므로 제외
+  const unique = [...new Map(uris.map((u) => [u.fsPath, u])).values()];
+  const roots = unique.filter(
+    (u) => !unique.some((o) => o !== u && isSameOrInside(u, o))
+  );
+  if (!roots.length) return;
+
+  const names = roots.map((u) => path.basename(u.fsPath));
+  const more = names.length > 10 ? `\n… +${names.length - 10}` : "";
+  const choice = await vscode.window.showWarningMessage(
+    `Are you sure you want to delete ${roots.length} items?`,
+    {
+      modal: true,
+      detail:
+        names
+          .slice(0, 10)
+          .map((n) => `• ${n}`)
+          .join("\n") + more,
+    },
+    "Delete"
+  );
+  if (choice !== "Delete") return;
+
+  const ops: FsOp[] = [];
   try {
-    await vscode.workspace.fs.stat(uri);
-    return true;
-  } catch {
-    return false;
+    for (const u of roots) {
+      const t = await getFileTypeSafe(u);
+      if (t === null) continue; // 이미 없음
+
+      if ((t & vscode.FileType.Directory) === vscode.FileType.Directory) {
+        const snapshot = await snapshotDir(u);
+        await vscode.workspace.fs.delete(u, { recursive: true });
+        ops.push({ type: "rmdir", uri: u, snapshot });
+      } else {
+        const contents = await readFileSafe(u);
+        if (!contents) continue;
+        await vscode.workspace.fs.delete(u);
+        ops.push({ type: "deleteFile", uri: u, contents });
+      }
+    }
+  } catch (e: any) {
+    // 성공한 것까지만 기록
+    console.error("[bulkDelete] error", e);
+    vscode.window.showErrorMessage(`Delete error: ${e?.message ?? String(e)}`);
   }
-}
 
-function parentDirUri(uri: vscode.Uri): vscode.Uri {
-  return vscode.Uri.file(path.dirname(uri.fsPath));
+  if (ops.length) pushOp({ type: "batch", ops });
 }
 
-async function promptName(title: string, placeHolder: string, value?: string) {
-  return vscode.window.showInputBox({
-    title,
-    placeHolder,
-    value,
-    validateInput: (v) => {
-      if (!v || !v.trim()) return "이름을 입력해주세요.";
-      if (v.includes("/") || v.includes("\\"))
-        return "경로 구분자(/, \\)는 사용할 수 없습니다.";
-      return null;
-    },
-  });
-}
+async function promptBulkRenameRule(
+  names: string[]
+): Promise<BulkRenameRule | undefined> {
+  const how = await vscode.window.showQuickPick(
+    [
+      { label: "Find and Replace…", rule: "replace" as const },
+      {
+        label: "Change Prefix…",
+        rule: "prefix" as const,
+        description: commonPrefix(names) || undefined,
+      },
+    ],
+    { title: `Rename ${names.length} items` }
+  );
+  if (!how) return;
 
-async function createFileUndoable(fileUri: vscode.Uri, contents = "") {
-  const data = Buffer.from(contents, "utf8");
-  const edit = new vscode.WorkspaceEdit();
-  edit.createFile(fileUri, {
-    overwrite: false,
-    ignoreIfExists: false,
-    contents: data,
+  if (how.rule === "replace") {
+    const find = await vscode.window.showInputBox({
+      title: "Rename: Find",
+      placeHolder: "바꿀 문자열",
+      validateInput: (v) => (v ? null : "바꿀 문자열을 입력해주세요."),
+    });
+    if (!find) return;
+
+    const replace = await vscode.window.showInputBox({
+      title: `Rename: Replace "${find}" with`,
+      value: find,
+    });
+    if (replace === undefined) return;
+    return { kind: "replace", find, replace };
+  }
+
+  const from = await vscode.window.showInputBox({
+    title: "Rename: Current Prefix",
+    value: commonPrefix(names),
+    validateInput: (v) => (v ? null : "prefix를 입력해주세요."),
   });
-  const ok = await vscode.workspace.applyEdit(edit);
-  if (!ok) throw new Error("applyEdit failed");
+  if (!from) return;
 
-  pushOp({ type: "createFile", uri: fileUri, contents: data });
-  console.log("[pushOp] createFile", undoStack.length);
+  const to = await vscode.window.showInputBox({
+    title: `Rename: Replace Prefix "${from}" with`,
+    value: from,
+  });
+  if (to === undefined) return;
+  return { kind: "prefix", from, to };
 }
 
-async function deleteFileUndoable(fileUri: vscode.Uri) {
-  const st = await statSafe(fileUri);
-  if (!st) return;
-  if ((st.type & vscode.FileType.Directory) === vscode.FileType.Directory)
-    return;
-
-  const contents = await readFileSafe(fileUri);
-  if (!contents) return;
+async function bulkRenameUndoable(uris: vscode.Uri[]) {
+  const rule = await promptBulkRenameRule(
+    uris.map((u) => path.basename(u.fsPath))
+  );
+  if (!rule) return;
 
-  const edit = new vscode.WorkspaceEdit();
-  edit.deleteFile(fileUri, { recursive: false, ignoreIfNotExists: true });
+  // 이름 충돌은 같은 폴더 안에서만 의미 있음
+  const byParent = new Map<string, vscode.Uri[]>();
+  for (const u of uris) {
+    const key = parentDirUri(u).fsPath;
+    byParent.set(key, [...(byParent.get(key) ?? []), u]);
+  }
 
-  const ok = await vscode.workspace.applyEdit(edit);
-  if (!ok) throw new Error("applyEdit failed");
+  const moves: Array<{ from: vscode.Uri; to: vscode.Uri }> = [];
+  const errors: string[] = [];
 
-  pushOp({ type: "deleteFile", uri: fileUri, contents });
-}
+  for (const [parentPath, group] of byParent) {
+    const parent = vscode.Uri.file(parentPath);
+    const plan = computeBulkRename(
+      group.map((u) => path.basename(u.fsPath)),
+      rule
+    );
+    errors.push(...plan.errors.map((e) => `${e.name}: ${e.message}`));
+
+    // 이번에 같이 바뀌어서 비워지는 이름은 충돌 아님
+    const freed = new Set(plan.renames.map((r) => r.from));
+    for (const r of plan.renames) {
+      const to = vscode.Uri.joinPath(parent, r.to);
+      if (!freed.has(r.to) && (await exists(to))) {
+        errors.push(`${r.from}: "${r.to}" 이미 있습니다.`);
+        continue;
+      }
+      moves.push({ from: vscode.Uri.joinPath(parent, r.from), to });
+    }
+  }
 
-async function renameUndoable(oldUri: vscode.Uri, newUri: vscode.Uri) {
-  const edit = new vscode.WorkspaceEdit();
-  edit.renameFile(oldUri, newUri, { overwrite: false });
-  const ok = await vscode.workspace.applyEdit(edit);
-  if (!ok) throw new Error("applyEdit failed");
+  if (!moves.length) {
+    vscode.window.showWarningMessage(
+      errors.length
+        ? `이름을 바꿀 수 있는 항목이 없습니다.\n${errors.slice(0, 5).join("\n")}`
+        : "바뀌는 이름이 없습니다."
+    );
+    return;
+  }
 
-  pushOp({ type: "rename", from: oldUri, to: newUri });
-}
+  // 미리보기 (체크 해제한 항목은 건너뜀)
+  const picked = await vscode.window.showQuickPick(
+    moves.map((m) => ({
+      label: `${path.basename(m.from.fsPath)} → ${path.basename(m.to.fsPath)}`,
+      description: vscode.workspace.asRelativePath(parentDirUri(m.from)),
+      picked: true,
+      move: m,
+    })),
+    {
+      title:
+        `Rename ${moves.length} items` +
+        (errors.length ? ` (${errors.length} skipped)` : ""),
+      placeHolder: "이름을 바꿀 항목을 선택하세요.",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    }
+  );
+  if (!picked?.length) return;
 
-async function mkdirUndoable(folderUri: vscode.Uri) {
-  await vscode.workspace.fs.createDirectory(folderUri);
-  pushOp({ type: "mkdir", uri: folderUri });
-}
+  const chosen = picked.map((p) => p.move);
+  const sources = new Set(chosen.map((m) => m.from.fsPath));
 
-async function rmdirUndoable(folderUri: vscode.Uri) {
-  const snap = await snapshotDir(folderUri);
-  await vscode.workspace.fs.delete(folderUri, { recursive: true });
-  pushOp({ type: "rmdir", uri: folderUri, snapshot: snap });
-}
+  // 선택에서 빠진 항목 이름과 겹치면 중단
+  for (const m of chosen) {
+    if (!sources.has(m.to.fsPath) && (await exists(m.to))) {
+      vscode.window.showErrorMessage(
+        `"${path.basename(m.to.fsPath)}" 이미 있습니다.`
+      );
+      return;
+    }
+  }
 
-function getBaseUriFromTreeItem(
-  ws: vscode.WorkspaceFolder,
-  item?: any
-): vscode.Uri {
-  let baseUri = ws.uri;
+  // a→b, b→c 처럼 서로 이름을 넘겨받으면 임시 이름을 거쳐서
+  const chained = chosen.some((m) => sources.has(m.to.fsPath));
+  const ops: FsOp[] = [];
 
-  if (item?.kind === "modeGroup") {
-    baseUri = item.parent ?? ws.uri;
-  } else if (item?.uri) {
-    switch (item.kind) {
-      case "workspace":
-      case "folder":
-        baseUri = item.uri;
-        break;
-      case "file":
-      case "wizFolder":
-        baseUri = parentDirUri(item.uri);
-        break;
+  try {
+    if (chained) {
+      const temps: vscode.Uri[] = [];
+      for (const [i, m] of chosen.entries()) {
+        const tmp = await pickNonConflictingUri(
+          parentDirUri(m.from),
+          `.wiz-rename-${i}-${path.basename(m.from.fsPath)}`
+        );
+        await vscode.workspace.fs.rename(m.from, tmp, { overwrite: false });
+        ops.push({ type: "rename", from: m.from, to: tmp });
+        temps.push(tmp);
+      }
+      for (const [i, m] of chosen.entries()) {
+        await vscode.workspace.fs.rename(temps[i], m.to, { overwrite: false });
+        ops.push({ type: "rename", from: temps[i], to: m.to });
+      }
+    } else {
+      for (const m of chosen) {
+        await vscode.workspace.fs.rename(m.from, m.to, { overwrite: false });
+        ops.push({ type: "rename", from: m.from, to: m.to });
+      }
     }
+  } catch (e: any) {
+    console.error("[bulkRename] error", e);
+    vscode.window.showErrorMessage(`Rename error: ${e?.message ?? String(e)}`);
   }
 
-  return baseUri;
+  if (ops.length) {
+    pushOp({ type: "batch", ops, label: `Renamed ${chosen.length} items` });
+  }
+  if (errors.length) {
+    vscode.window.showWarningMessage(
+      `${errors.length}개 항목은 건너뛰었습니다.\n${errors.slice(0, 5).join("\n")}`
+    );
+  }
 }
 
-async function createWizPageUndoable(
-  parentDir: vscode.Uri,
-  folderName: string,
-  mode: WizMode,
-  id: string,
-  namespace: string
-) {
-  const wizDir = vscode.Uri.joinPath(parentDir, folderName);
+// ---- Wiz 폴더 FileDecoration (Wiz Explorer + 기본 Explorer) ----
+class WizDecorationProvider implements vscode.FileDecorationProvider {
+  private readonly _onDidChangeFileDecorations = new vscode.EventEmitter<
+    vscode.Uri | vscode.Uri[] | undefined
+  >();
+  readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
 
-  if (await uriExists(wizDir)) {
-    throw new Error("이미 같은 이름의 폴더가 있습니다.");
+  constructor(
+    private readonly wizIndex: WizIndexService,
+    private readonly editor: WizFolderEditorProvider
+  ) {
+    wizIndex.onDidChange((change) =>
+      this._onDidChangeFileDecorations.fire(
+        change?.folders.map((f) => vscode.Uri.file(f))
+      )
+    );
+    editor.onDidChangeDirtyFolder((u) =>
+      this._onDidChangeFileDecorations.fire(u)
+    );
   }
 
-  const ops: FsOp[] = [];
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== "file") return undefined;
+    const entry = this.wizIndex.index.get(uri.fsPath);
+    if (!entry) return undefined;
+
+    const d = wizFolderDecoration(entry, this.editor.dirtyTabCount(uri));
+    return new vscode.FileDecoration(
+      d.badge || undefined,
+      d.tooltip,
+      d.tone === "error"
+        ? new vscode.ThemeColor("list.errorForeground")
+        : d.tone === "dirty"
+          ? new vscode.ThemeColor("gitDecoration.modifiedResourceForeground")
+          : undefined
+    );
+  }
 
-  await vscode.workspace.fs.createDirectory(wizDir);
-  ops.push({ type: "mkdir", uri: wizDir });
+  dispose() {
+    this._onDidChangeFileDecorations.dispose();
+  }
+}
 
-  for (const [name, text] of Object.entries(DEFAULT_WIZ_FILES)) {
-    const fileUri = vscode.Uri.joinPath(wizDir, name);
-    const data = Buffer.from(text ?? "", "utf8");
-    await vscode.workspace.fs.writeFile(fileUri, data);
-    ops.push({ type: "createFile", uri: fileUri, contents: data });
+// ---- Go to Wiz Page ----
+type WizPagePickItem = vscode.QuickPickItem & { entry: WizIndexEntry };
+
+function toWizPagePickItem(entry: WizIndexEntry): WizPagePickItem {
+  const folder = vscode.Uri.file(entry.fsPath);
+  return {
+    label: wizPageLabel(entry),
+    description: [entry.mode, entry.title].filter(Boolean).join(" · "),
+    detail: [
+      entry.category,
+      entry.viewuri,
+      // multi-root면 workspace folder 이름 포함
+      vscode.workspace.asRelativePath(folder),
+    ]
+      .filter(Boolean)
+      .join(" · "),
+    alwaysShow: true, // 필터링은 searchWizPages가 함
+    entry,
+  };
+}
+
+async function goToWizPage() {
+  if (!wizIndex) return;
+  // 첫 스캔이 끝나기 전이면 목록이 비어 있음
+  await wizIndex.whenReady();
+  await wizIndex.settle();
+  const entries = wizIndex.index.all();
+  if (!entries.length) {
+    vscode.window.showInformationMessage("워크스페이스에 Wiz 폴더가 없습니다.");
+    return;
   }
 
-  // ✅ app.json (mode/id/namespace/template 반영)
-  {
-    const template = buildTemplate(mode, namespace, parentDir.fsPath);
-    const fileUri = vscode.Uri.joinPath(wizDir, "app.json");
-    const data = Buffer.from(
-      buildAppJson(mode, id, namespace, template),
-      "utf8"
+  const qp = vscode.window.createQuickPick<WizPagePickItem>();
+  qp.title = "Go to Wiz Page";
+  qp.placeholder = "id, mode, title, category, viewuri로 검색";
+  qp.matchOnDescription = true;
+  qp.matchOnDetail = true;
+
+  const update = () => {
+    qp.items = searchWizPages(entries, qp.value).map(toWizPagePickItem);
+  };
+  update();
+
+  const picked = await new Promise<WizIndexEntry | undefined>((resolve) => {
+    qp.onDidChangeValue(update);
+    qp.onDidAccept(() => {
+      resolve(qp.selectedItems[0]?.entry);
+      qp.hide();
+    });
+    qp.onDidHide(() => {
+      resolve(undefined);
+      qp.dispose();
+    });
+    qp.show();
+  });
+  if (!picked) return;
+
+  await vscode.commands.executeCommand(
+    "vscode.openWith",
+    await ensureWizEntry(vscode.Uri.file(picked.fsPath)),
+    WizFolderEditorProvider.viewType
+  );
+}
+
+// ---- wiz-* 태그 자동완성 ----
+function currentWizTags(): WizTagCompletion[] {
+  return wizIndex ? wizTagCompletions(wizIndex.index.all()) : [];
+}
+
+// view.pug (텍스트 편집기): 줄 맨 앞 또는 block expansion(`div: `) 뒤의 태그 자리에서만
+class WizTagCompletionProvider implements vscode.CompletionItemProvider {
+  async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[]> {
+    const before = document
+      .lineAt(position.line)
+      .text.slice(0, position.character);
+    const m = /(?:^\s*|:\s+)([\w-]*)$/.exec(before);
+    if (!m) return [];
+
+    await wizIndex?.whenReady();
+    const range = new vscode.Range(
+      position.translate(0, -m[1].length),
+      position
     );
-    await vscode.workspace.fs.writeFile(fileUri, data);
-    ops.push({ type: "createFile", uri: fileUri, contents: data });
+    return currentWizTags().map((t) => {
+      const item = new vscode.CompletionItem(
+        { label: t.tag, description: t.title || t.mode },
+        vscode.CompletionItemKind.Class
+      );
+      item.detail = t.id || t.mode;
+      item.documentation = new vscode.MarkdownString(t.documentation);
+      item.insertText = new vscode.SnippetString(t.pug);
+      item.range = range;
+      return item;
+    });
   }
-
-  pushOp({ type: "batch", ops });
-  return wizDir;
 }
 
 let extensionDisposables: vscode.Disposable[] = [];
@@ -1349,28 +4124,70 @@ export function activate(context: vscode.ExtensionContext) {
   vscode.window.showInformationMessage("Season Editor: activated!");
   console.log("[season-editor] activated");
 
-  const explorer = new WizExplorerProvider();
+  // ---- Wiz 폴더 인덱스 (트리 refresh마다 디스크를 다시 훑지 않음) ----
+  wizIndex = new WizIndexService();
+  void wizIndex.rebuild();
+  const explorer = new WizExplorerProvider(wizIndex);
+
+  // ---- undo/redo 기록 복구 ----
+  historyStore = new HistoryStore(context);
+  historyStore.load().catch((e) => console.error("[history] load failed", e));
 
   const dnd = new SeasonExplorerDnD(() => explorer.refresh());
+  const wizEditor = new WizFolderEditorProvider(context, dnd);
+
+  // mode 배지 / app.json 문제 / 저장 안 된 탭 (기본 Explorer에도 표시)
+  const decorations = new WizDecorationProvider(wizIndex, wizEditor);
+  context.subscriptions.push(
+    decorations,
+    vscode.window.registerFileDecorationProvider(decorations)
+  );
+
+  // wiz-* 태그 자동완성: Wiz 편집기(Pug/HTML 탭)는 메시지로, view.pug는 provider로
+  context.subscriptions.push(
+    wizIndex.onDidChange(() => wizEditor.postWizTags()),
+    vscode.languages.registerCompletionItemProvider(
+      { scheme: "file", pattern: "**/view.pug" },
+      new WizTagCompletionProvider()
+    )
+  );
 
   const treeView = vscode.window.createTreeView("wizExplorer", {
     treeDataProvider: explorer,
     dragAndDropController: dnd,
     showCollapseAll: true,
+    canSelectMany: true,
   });
 
+  // 명령 인자(우클릭 항목 + 선택 항목) 또는 키보드 단축키(트리 선택) -> uri들
+  const explorerTargets = (item?: FsNodeItem, selected?: FsNodeItem[]) => {
+    const items = selected?.length
+      ? selected
+      : item
+        ? [item]
+        : treeView.selection;
+    return items
+      .filter((i) => i.kind !== "workspace")
+      .map((i) => i.uri)
+      .filter((u): u is vscode.Uri => !!u);
+  };
+
   const fsWatcher = vscode.workspace.createFileSystemWatcher("**/*");
-  fsWatcher.onDidCreate(() => explorer.refresh());
-  fsWatcher.onDidDelete(() => explorer.refresh());
-  fsWatcher.onDidChange(() => explorer.refresh());
+  fsWatcher.onDidCreate((u) => wizIndex?.onFsEvent("create", u));
+  fsWatcher.onDidDelete((u) => wizIndex?.onFsEvent("delete", u));
+  fsWatcher.onDidChange((u) => wizIndex?.onFsEvent("change", u));
 
-  context.subscriptions.push(treeView, fsWatcher);
+  context.subscriptions.push(treeView, fsWatcher, wizIndex);
 
   extensionDisposables.push(fsWatcher);
 
   context.subscriptions.push(
+    // 수동 refresh는 인덱스부터 다시 (watcher가 놓친 변경 복구용)
     vscode.commands.registerCommand("wiz.refresh", () => {
-      explorer.refresh();
+      void wizIndex?.rebuild();
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      void wizIndex?.rebuild();
     })
   );
 
@@ -1403,38 +4220,107 @@ export function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(treeView);
 
+  // ---- app.json 검증 (Diagnostics) ----
+  const appJsonDiagnostics =
+    vscode.languages.createDiagnosticCollection("season-editor");
+  const appJsonWatcher =
+    vscode.workspace.createFileSystemWatcher("**/app.json");
+
+  const validateAppJsonUri = (u: vscode.Uri, text?: string) => {
+    if (u.scheme !== "file") return;
+    validateAppJsonFile(appJsonDiagnostics, u, text).catch((e) =>
+      console.error("[app.json] validate failed", u.fsPath, e)
+    );
+  };
+
+  appJsonWatcher.onDidCreate((u) => validateAppJsonUri(u));
+  appJsonWatcher.onDidChange((u) => validateAppJsonUri(u));
+  appJsonWatcher.onDidDelete((u) => appJsonDiagnostics.delete(u));
+
+  context.subscriptions.push(
+    appJsonDiagnostics,
+    appJsonWatcher,
+    vscode.workspace.onDidOpenTextDocument((doc) =>
+      validateAppJsonUri(doc.uri, doc.getText())
+    ),
+    vscode.workspace.onDidChangeTextDocument((e) =>
+      validateAppJsonUri(e.document.uri, e.document.getText())
+    ),
+    // 저장 안 하고 닫으면 디스크 기준으로 다시
+    vscode.workspace.onDidCloseTextDocument((doc) =>
+      validateAppJsonUri(doc.uri)
+    )
+  );
+
+  // view.ts -> app.json ng (저장 시 갱신, 바뀌면 drift 경고 다시 계산)
+  const viewTsWatcher = vscode.workspace.createFileSystemWatcher("**/view.ts");
+  const revalidateSibling = (u: vscode.Uri) =>
+    validateAppJsonUri(vscode.Uri.joinPath(parentDirUri(u), "app.json"));
+
+  viewTsWatcher.onDidCreate(revalidateSibling);
+  viewTsWatcher.onDidChange(revalidateSibling);
+  viewTsWatcher.onDidDelete(revalidateSibling);
+
+  context.subscriptions.push(
+    viewTsWatcher,
+    vscode.workspace.onDidSaveTextDocument(async (doc) => {
+      if (doc.uri.scheme !== "file") return;
+      if (path.basename(doc.uri.fsPath) !== "view.ts") return;
+
+      const wizFolder = parentDirUri(doc.uri);
+      if (!(await isWizFolder(wizFolder))) return;
+      syncNgFields(wizEditor, wizFolder, doc.getText()).catch((e) =>
+        console.error("[app.json] ng sync failed", wizFolder.fsPath, e)
+      );
+    })
+  );
+
+  // id / namespace / template 중복: 인덱스가 바뀔 때마다 전체 다시 계산
+  const duplicateDiagnostics = vscode.languages.createDiagnosticCollection(
+    "season-editor-duplicates"
+  );
+  let duplicateCheck = Promise.resolve();
+  const checkDuplicates = () => {
+    if (!wizIndex) return;
+    const index = wizIndex.index;
+    duplicateCheck = duplicateCheck
+      .then(() => updateDuplicateDiagnostics(duplicateDiagnostics, index))
+      .catch((e) => console.error("[app.json] duplicate check failed", e));
+  };
+  context.subscriptions.push(
+    duplicateDiagnostics,
+    wizIndex.onDidChange(checkDuplicates)
+  );
+  void wizIndex.whenReady().then(checkDuplicates);
+
+  // 초기 1회: 워크스페이스 전체 app.json
+  vscode.workspace
+    .findFiles("**/app.json", "**/node_modules/**")
+    .then((uris) => uris.forEach((u) => validateAppJsonUri(u)));
+
   // ---- 파일/폴더 조작 커맨드들 ----
 
   context.subscriptions.push(
     vscode.workspace.onDidChangeConfiguration((e) => {
-      if (e.affectsConfiguration("seasonEditor.defaultModes")) {
+      if (e.affectsConfiguration("seasonEditor.wizFolderMarkers")) {
+        void wizIndex?.rebuild();
+      } else if (
+        e.affectsConfiguration("seasonEditor.defaultModes") ||
+        e.affectsConfiguration("seasonEditor.groupByCategory")
+      ) {
         explorer.refresh();
       }
+      if (e.affectsConfiguration("seasonEditor.history")) {
+        historyStore?.scheduleSave();
+      }
     }),
     vscode.commands.registerCommand("wiz.newFile", async (item?: any) => {
-      const ws = vscode.workspace.workspaceFolders?.[0];
+      // 타이틀바에서 실행하면 item 없음 -> 트리 선택 항목
+      item ??= treeView.selection[0];
+      const ws = await resolveWorkspaceFolder(item);
       if (!ws) return;
 
-      let baseUri = ws.uri;
-
-      // 1) 가상 그룹 노드: parent가 실제 폴더
-      if (item?.kind === "modeGroup") {
-        baseUri = item.parent ?? ws.uri;
-      }
-      // 2) uri가 있는 노드들: uri 기반으로 처리
-      else if (item?.uri) {
-        switch (item.kind) {
-          case "workspace":
-          case "folder":
-            baseUri = item.uri;
-            break;
-
-          case "file":
-          case "wizFolder":
-            baseUri = parentDirUri(item.uri);
-            break;
-        }
-      }
+      const baseUri = getBaseUriFromTreeItem(ws, item);
 
       const name = await promptName("New File", "예: hello.txt");
       if (!name) return;
@@ -1453,29 +4339,12 @@ export function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand("wiz.newFolder", async (item?: any) => {
-      const ws = vscode.workspace.workspaceFolders?.[0];
+      // 타이틀바에서 실행하면 item 없음 -> 트리 선택 항목
+      item ??= treeView.selection[0];
+      const ws = await resolveWorkspaceFolder(item);
       if (!ws) return;
 
-      let baseUri = ws.uri;
-
-      // 1) 가상 그룹 노드: parent가 실제 폴더
-      if (item?.kind === "modeGroup") {
-        baseUri = item.parent ?? ws.uri;
-      }
-      // 2) uri가 있는 노드들: uri 기반으로 처리
-      else if (item?.uri) {
-        switch (item.kind) {
-          case "workspace":
-          case "folder":
-            baseUri = item.uri;
-            break;
-
-          case "file":
-          case "wizFolder":
-            baseUri = parentDirUri(item.uri);
-            break;
-        }
-      }
+      const baseUri = getBaseUriFromTreeItem(ws, item);
 
       const name = await promptName("New Folder", "예: new-folder");
       if (!name) return;
@@ -1494,7 +4363,8 @@ export function activate(context: vscode.ExtensionContext) {
     }),
 
     vscode.commands.registerCommand("wiz.newWizPage", async (item?: any) => {
-      const ws = vscode.workspace.workspaceFolders?.[0];
+      item ??= treeView.selection[0];
+      const ws = await resolveWorkspaceFolder(item);
       if (!ws) return;
 
       const baseUri = getBaseUriFromTreeItem(ws, item);
@@ -1519,34 +4389,33 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
 
-      const prefix = makeDefaultIdPrefix(mode);
-
-      // mode별 입력창
-      const rawName = await vscode.window.showInputBox({
+      // 첫 스캔 전이면 중복 검사가 빈 인덱스를 보게 됨
+      await wizIndex?.whenReady();
+      await wizIndex?.settle();
+      const rawName = await promptWizId(mode, {
         title: mode === "portal" ? "New Portal" : `New ${mode}`,
-        placeHolder:
-          mode === "portal" ? "예: nav.admin" : `예: ${mode}.nav.admin`,
-        value: mode === "portal" ? "" : prefix,
-        validateInput: (v) => {
-          if (!v || !v.trim()) return "이름을 입력해주세요.";
-          if (v.includes("/") || v.includes("\\"))
-            return "경로 구분자(/, \\)는 사용할 수 없습니다.";
-
-          const s = v.trim();
-
-          if (mode !== "portal") {
-            if (!s.startsWith(prefix))
-              return `반드시 "${prefix}"로 시작해야 합니다.`;
-            if (s === prefix)
-              return `"${prefix}" 뒤에 namespace를 붙여주세요. (예: ${mode}.nav.admin)`;
-            if (s.endsWith(".")) return "마지막은 '.'로 끝날 수 없습니다.";
+        // 폴더 이름뿐 아니라 기존 페이지의 id/template과도 겹치면 안 됨
+        validate: (value) => {
+          const derived = deriveIdAndNamespace(mode, value);
+          let template: string;
+          try {
+            template = buildTemplate(mode, derived.namespace, baseUri.fsPath);
+          } catch {
+            return null;
           }
-
-          // portal은 그냥 허용(원하면 '.' 금지/허용 등 정책 추가 가능)
-          return null;
+          const conflict = findIdentityConflict(wizIndex?.index.all() ?? [], {
+            mode,
+            baseFsPath: baseUri.fsPath,
+            id: derived.id,
+            template,
+          });
+          if (!conflict) return null;
+          const where = vscode.workspace.asRelativePath(conflict.entry.fsPath);
+          return conflict.field === "id"
+            ? `id "${derived.id}"는 이미 ${where}에서 사용 중입니다.`
+            : `template "${template}"는 이미 ${where}에서 사용 중입니다.`;
         },
       });
-
       if (!rawName) return;
 
       const { id, namespace } = deriveIdAndNamespace(mode, rawName);
@@ -1575,54 +4444,157 @@ export function activate(context: vscode.ExtensionContext) {
       }
     }),
 
-    vscode.commands.registerCommand("wiz.rename", async (item: any) => {
-      if (!item?.uri) return;
+    vscode.commands.registerCommand(
+      "wiz.rename",
+      async (item: any, selected?: FsNodeItem[]) => {
+        // 여러 개 선택: find/replace 또는 prefix 변경 + 미리보기
+        if (selected && selected.length > 1) {
+          await bulkRenameUndoable(explorerTargets(item, selected));
+          setTimeout(() => explorer.refresh(), 0);
+          return;
+        }
+        if (!item?.uri) return;
 
-      const oldUri: vscode.Uri = item.uri;
-      const oldName = path.basename(oldUri.fsPath);
+        const oldUri: vscode.Uri = item.uri;
+        const oldName = path.basename(oldUri.fsPath);
 
-      const newName = await promptName("Rename", "새 이름", oldName);
-      if (!newName || newName === oldName) return;
+        const newName = await promptName("Rename", "새 이름", oldName);
+        if (!newName || newName === oldName) return;
 
-      const parentUri = parentDirUri(oldUri);
-      const newUri = vscode.Uri.joinPath(parentUri, newName);
+        const parentUri = parentDirUri(oldUri);
+        const newUri = vscode.Uri.joinPath(parentUri, newName);
 
-      if (await uriExists(newUri)) {
-        vscode.window.showErrorMessage(
-          "이미 같은 이름의 파일/폴더가 있습니다."
-        );
-        return;
+        if (await uriExists(newUri)) {
+          vscode.window.showErrorMessage(
+            "이미 같은 이름의 파일/폴더가 있습니다."
+          );
+          return;
+        }
+
+        await renameUndoable(oldUri, newUri);
       }
+    ),
+
+    vscode.commands.registerCommand("wiz.renameWizPage", async (item: any) => {
+      if (!item?.uri) return;
+      if (!(await isWizFolder(item.uri))) return;
 
-      await renameUndoable(oldUri, newUri);
+      try {
+        await renameWizPageUndoable(item.uri);
+      } catch (e: any) {
+        vscode.window.showErrorMessage(e?.message ?? String(e));
+      } finally {
+        setTimeout(() => explorer.refresh(), 0);
+      }
     }),
 
-    vscode.commands.registerCommand("wiz.delete", async (item: any) => {
-      if (!item?.uri) return;
+    vscode.commands.registerCommand(
+      "wiz.duplicateWizPage",
+      async (item: any) => {
+        if (!item?.uri) return;
+        if (!(await isWizFolder(item.uri))) return;
+
+        try {
+          const newFolder = await duplicateWizPageUndoable(item.uri);
+          // 복제본을 바로 편집기로
+          if (newFolder) {
+            await vscode.commands.executeCommand(
+              "vscode.openWith",
+              await ensureWizEntry(newFolder),
+              WizFolderEditorProvider.viewType
+            );
+          }
+        } catch (e: any) {
+          vscode.window.showErrorMessage(e?.message ?? String(e));
+        } finally {
+          setTimeout(() => explorer.refresh(), 0);
+        }
+      }
+    ),
 
-      const targetUri: vscode.Uri = item.uri;
-      const name = path.basename(targetUri.fsPath);
+    vscode.commands.registerCommand("wiz.findUsages", async (item?: any) => {
+      // tree item 또는 (webview에서 온) 폴더 Uri
+      const wizFolder: vscode.Uri | undefined =
+        item instanceof vscode.Uri ? item : item?.uri;
+      if (!wizFolder) return;
 
-      const choice = await vscode.window.showWarningMessage(
-        `Are you sure you want to delete '${name}'?`,
-        { modal: true },
-        "Delete"
-      );
-      if (choice !== "Delete") return;
+      try {
+        await showTemplateUsages(wizFolder);
+      } catch (e: any) {
+        vscode.window.showErrorMessage(e?.message ?? String(e));
+      }
+    }),
 
-      const t = await getFileTypeSafe(targetUri);
-      if (t === null) return; // 이미 없음
+    vscode.commands.registerCommand(
+      "wiz.cut",
+      (item?: FsNodeItem, selected?: FsNodeItem[]) => {
+        const uris = explorerTargets(item, selected);
+        if (uris.length) setExplorerClipboard({ mode: "cut", uris });
+      }
+    ),
 
-      // ✅ 폴더면: VSCode undo 시스템에 태우지 말고 우리 로컬로 처리
-      if ((t & vscode.FileType.Directory) === vscode.FileType.Directory) {
-        await rmdirUndoable(targetUri);
-        setTimeout(() => explorer.refresh(), 0);
-        return;
+    vscode.commands.registerCommand(
+      "wiz.copy",
+      (item?: FsNodeItem, selected?: FsNodeItem[]) => {
+        const uris = explorerTargets(item, selected);
+        if (uris.length) setExplorerClipboard({ mode: "copy", uris });
       }
+    ),
 
-      // ✅ 파일이면: WorkspaceEdit deleteFile (VSCode bulk undo/redo 대상)
-      await deleteFileUndoable(targetUri);
-    })
+    vscode.commands.registerCommand("wiz.paste", async (item?: FsNodeItem) => {
+      const target = item ?? treeView.selection[0];
+
+      // folder/workspace면 그 안으로, file/wizFolder면 옆으로
+      let destDir: vscode.Uri | undefined;
+      if (target?.uri) {
+        destDir =
+          target.kind === "workspace" || target.kind === "folder"
+            ? target.uri
+            : parentDirUri(target.uri);
+      } else {
+        destDir = (await resolveWorkspaceFolder(target))?.uri;
+      }
+      if (!destDir) return;
+
+      await pasteUndoable(destDir);
+      setTimeout(() => explorer.refresh(), 0);
+    }),
+
+    vscode.commands.registerCommand(
+      "wiz.delete",
+      async (item: any, selected?: FsNodeItem[]) => {
+        // 여러 개 선택: 확인 한 번 + batch 하나
+        if (selected && selected.length > 1) {
+          await bulkDeleteUndoable(explorerTargets(item, selected));
+          setTimeout(() => explorer.refresh(), 0);
+          return;
+        }
+        if (!item?.uri) return;
+
+        const targetUri: vscode.Uri = item.uri;
+        const name = path.basename(targetUri.fsPath);
+
+        const choice = await vscode.window.showWarningMessage(
+          `Are you sure you want to delete '${name}'?`,
+          { modal: true },
+          "Delete"
+        );
+        if (choice !== "Delete") return;
+
+        const t = await getFileTypeSafe(targetUri);
+        if (t === null) return; // 이미 없음
+
+        // ✅ 폴더면: VSCode undo 시스템에 태우지 말고 우리 로컬로 처리
+        if ((t & vscode.FileType.Directory) === vscode.FileType.Directory) {
+          await rmdirUndoable(targetUri);
+          setTimeout(() => explorer.refresh(), 0);
+          return;
+        }
+
+        // ✅ 파일이면: WorkspaceEdit deleteFile (VSCode bulk undo/redo 대상)
+        await deleteFileUndoable(targetUri);
+      }
+    )
   );
 
   // ---- wiz 폴더 열기 (너 기존 코드가 어딘가에 있어야 함) ----
@@ -1630,14 +4602,7 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.registerCommand(
       "wiz.openFolder",
       async (entryUri: vscode.Uri) => {
-        try {
-          await vscode.workspace.fs.stat(entryUri);
-        } catch {
-          await vscode.workspace.fs.writeFile(
-            entryUri,
-            Buffer.from("", "utf8")
-          );
-        }
+        await ensureWizEntry(parentDirUri(entryUri));
         await vscode.commands.executeCommand(
           "vscode.openWith",
           entryUri,
@@ -1646,9 +4611,61 @@ export function activate(context: vscode.ExtensionContext) {
       }
     ),
 
+    vscode.commands.registerCommand("wiz.goToWizPage", goToWizPage),
+
+    // 웹뷰 포커스 상태의 Ctrl/Cmd+S -> 활성 탭 저장
+    vscode.commands.registerCommand("wiz.saveActive", () => {
+      WizFolderEditorProvider.currentPanel?.webview.postMessage({
+        type: "saveActive",
+      });
+    }),
+
+    vscode.commands.registerCommand("wiz.saveAll", async () => {
+      const document = wizEditor.activeDocument();
+      if (document) await wizEditor.saveAll(document);
+    }),
+
+    // 닫기 전에 저장 안 된 탭 목록 보여주고 Save All / Discard / Cancel
+    vscode.commands.registerCommand("wiz.closeEditor", async () => {
+      const document = wizEditor.activeDocument();
+      const dirty = document?.dirtyKeys() ?? [];
+      if (!document || !dirty.length) {
+        await vscode.commands.executeCommand(
+          "workbench.action.closeActiveEditor"
+        );
+        return;
+      }
+
+      const files = dirty.map((key) => document.tab(key)?.filename ?? key);
+      const pick = await vscode.window.showWarningMessage(
+        `"${document.folderName}" has ${files.length} unsaved file(s).`,
+        { modal: true, detail: files.map((f) => `• ${f}`).join("\n") },
+        "Save All",
+        "Discard"
+      );
+      if (!pick) return;
+
+      if (pick === "Save All") {
+        await wizEditor.saveAll(document);
+      } else {
+        await vscode.commands.executeCommand("workbench.action.files.revert");
+      }
+      await vscode.commands.executeCommand(
+        "workbench.action.closeActiveEditor"
+      );
+    }),
+
+    vscode.languages.registerDefinitionProvider(
+      [
+        { scheme: "file", pattern: "**/view.pug" },
+        { scheme: "file", pattern: "**/view.html" },
+      ],
+      new WizTemplateDefinitionProvider()
+    ),
+
     vscode.window.registerCustomEditorProvider(
       WizFolderEditorProvider.viewType,
-      new WizFolderEditorProvider(context, dnd),
+      wizEditor,
       { webviewOptions: { retainContextWhenHidden: true } }
     )
   );
@@ -1661,7 +4678,46 @@ export function activate(context: vscode.ExtensionContext) {
     } catch {}
   }
 
+  // 끝날 때까지 stack에 둬서 blob 정리 대상이 되지 않게
+  async function undoLast() {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return false;
+
+    try {
+      await undoOp(entry.op);
+      redoStack.push(entry);
+    } finally {
+      removeEntry(undoStack, entry);
+      notifyHistoryChanged();
+      wizIndex?.touch(collectOpUris(entry.op));
+      setTimeout(() => explorer.refresh(), 0);
+    }
+    return true;
+  }
+
+  async function redoLast() {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return false;
+
+    try {
+      await redoOp(entry.op);
+      undoStack.push(entry);
+    } finally {
+      removeEntry(redoStack, entry);
+      notifyHistoryChanged();
+      wizIndex?.touch(collectOpUris(entry.op));
+      setTimeout(() => explorer.refresh(), 0);
+    }
+    return true;
+  }
+
+  const historyView = vscode.window.createTreeView("seasonHistory", {
+    treeDataProvider: new HistoryViewProvider(),
+  });
+
   context.subscriptions.push(
+    historyView,
+
     vscode.commands.registerCommand("seasonExplorer.undo", async () => {
       // await focusWizExplorer();
       console.log(
@@ -1675,78 +4731,7 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const op = undoStack.pop();
-      if (!op) return;
-
-      try {
-        switch (op.type) {
-          case "createFile": {
-            await vscode.workspace.fs.delete(op.uri, { recursive: false });
-            break;
-          }
-
-          case "deleteFile": {
-            try {
-              await vscode.workspace.fs.createDirectory(
-                vscode.Uri.file(path.dirname(op.uri.fsPath))
-              );
-              await vscode.workspace.fs.writeFile(op.uri, op.contents);
-            } catch (e) {
-              console.error("[undo deleteFile] failed", op.uri.fsPath, e);
-              vscode.window.showErrorMessage(
-                `Undo restore failed: ${op.uri.fsPath}`
-              );
-            }
-            break;
-          }
-
-          case "batch": {
-            // ✅ undo는 역순으로 되돌리기
-            for (let i = op.ops.length - 1; i >= 0; i--) {
-              const inner = op.ops[i];
-              if (inner.type === "rename") {
-                await vscode.workspace.fs.rename(inner.to, inner.from, {
-                  overwrite: false,
-                });
-              } else if (inner.type === "createFile") {
-                await vscode.workspace.fs.delete(inner.uri, {
-                  recursive: false,
-                });
-              } else if (inner.type === "deleteFile") {
-                await vscode.workspace.fs.createDirectory(
-                  vscode.Uri.file(path.dirname(inner.uri.fsPath))
-                );
-                await vscode.workspace.fs.writeFile(inner.uri, inner.contents);
-              } else if (inner.type === "mkdir") {
-                await vscode.workspace.fs.delete(inner.uri, {
-                  recursive: true,
-                });
-              } else if (inner.type === "rmdir") {
-                await restoreDir(inner.uri, inner.snapshot);
-              }
-            }
-            break;
-          }
-
-          case "rename":
-            await vscode.workspace.fs.rename(op.to, op.from, {
-              overwrite: false,
-            });
-            break;
-
-          case "mkdir":
-            await vscode.workspace.fs.delete(op.uri, { recursive: true });
-            break;
-
-          case "rmdir":
-            await restoreDir(op.uri, op.snapshot);
-            break;
-        }
-
-        redoStack.push(op);
-      } finally {
-        setTimeout(() => explorer.refresh(), 0);
-      }
+      await undoLast();
     }),
 
     vscode.commands.registerCommand("seasonExplorer.redo", async () => {
@@ -1762,77 +4747,52 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const op = redoStack.pop();
-      if (!op) return;
+      await redoLast();
+    }),
 
-      try {
-        switch (op.type) {
-          case "createFile":
-            await vscode.workspace.fs.writeFile(
-              op.uri,
-              op.contents ?? new Uint8Array()
-            );
-            break;
-
-          case "deleteFile":
-            await vscode.workspace.fs.delete(op.uri, { recursive: false });
-            break;
-
-          case "batch": {
-            // ✅ redo는 정순으로 다시 적용
-            for (const inner of op.ops) {
-              if (inner.type === "rename") {
-                await vscode.workspace.fs.rename(inner.from, inner.to, {
-                  overwrite: false,
-                });
-              } else if (inner.type === "createFile") {
-                await vscode.workspace.fs.writeFile(
-                  inner.uri,
-                  inner.contents ?? new Uint8Array()
-                );
-              } else if (inner.type === "deleteFile") {
-                await vscode.workspace.fs.delete(inner.uri, {
-                  recursive: false,
-                });
-              } else if (inner.type === "mkdir") {
-                await vscode.workspace.fs.createDirectory(inner.uri);
-              } else if (inner.type === "rmdir") {
-                await vscode.workspace.fs.delete(inner.uri, {
-                  recursive: true,
-                });
-              }
-            }
-            break;
+    // History view 클릭: 해당 항목까지 (포함) 되돌리기 / 다시 적용
+    vscode.commands.registerCommand(
+      "seasonExplorer.undoTo",
+      async (entry: FsHistoryEntry) => {
+        try {
+          while (undoStack.includes(entry)) {
+            if (!(await undoLast())) break;
           }
-
-          case "rename":
-            await vscode.workspace.fs.rename(op.from, op.to, {
-              overwrite: false,
-            });
-            break;
-
-          case "mkdir":
-            await vscode.workspace.fs.createDirectory(op.uri);
-            break;
-
-          case "rmdir":
-            await vscode.workspace.fs.delete(op.uri, { recursive: true });
-            break;
+        } catch (e: any) {
+          vscode.window.showErrorMessage(
+            `Undo failed: ${e?.message ?? String(e)}`
+          );
         }
+      }
+    ),
 
-        undoStack.push(op);
-      } finally {
-        setTimeout(() => explorer.refresh(), 0);
+    vscode.commands.registerCommand(
+      "seasonExplorer.redoTo",
+      async (entry: FsHistoryEntry) => {
+        try {
+          while (redoStack.includes(entry)) {
+            if (!(await redoLast())) break;
+          }
+        } catch (e: any) {
+          vscode.window.showErrorMessage(
+            `Redo failed: ${e?.message ?? String(e)}`
+          );
+        }
       }
-    })
+    )
   );
 }
 
-export function deactivate() {
+export async function deactivate() {
   for (const d of extensionDisposables) {
     try {
       d.dispose();
     } catch {}
   }
   extensionDisposables = [];
+
+  // 남은 기록 저장
+  await historyStore?.flush();
+  historyStore = undefined;
+  wizIndex = undefined;
 }
@@ -0,0 +1,337 @@
+// src/lib/app-json.ts
+import {
+  WizMode,
+  isWizMode,
+  makeDefaultIdPrefix,
+  deriveIdAndNamespace,
+  buildTemplate,
+} from "./wiz-utils";
+import { templateTagName } from "./template-usages";
+
+export type AppJsonIssueSeverity = "error" | "warning";
+
+export interface AppJsonIssue {
+  field: string;
+  message: string;
+  severity: AppJsonIssueSeverity;
+  // text 기준 offset (end는 exclusive)
+  start: number;
+  end: number;
+}
+
+/**
+ * top-level key의 값 위치를 찾는다. (JSON 파서 없이 진단 위치용으로만 사용)
+ * 값이 문자열이면 따옴표 포함 범위, 아니면 , } 줄바꿈 직전까지
+ */
+export function findJsonValueRange(
+  text: string,
+  key: string
+): { start: number; end: number } | null {
+  const escaped = key.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const m = new RegExp(`"${escaped}"\\s*:\\s*`).exec(text);
+  if (!m) return null;
+
+  const start = m.index + m[0].length;
+  if (text[start] === '"') {
+    let i = start + 1;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === "\\") i++;
+      i++;
+    }
+    return { start, end: Math.min(i + 1, text.length) };
+  }
+
+  let end = start;
+  while (end < text.length && !/[,}\r\n]/.test(text[end])) end++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
+
+// i의 문자열 리터럴 끝 (닫는 따옴표 다음)
+function scanString(text: string, i: number): number {
+  for (let j = i + 1; j < text.length; j++) {
+    if (text[j] === "\\") j++;
+    else if (text[j] === '"') return j + 1;
+  }
+  return text.length;
+}
+
+function skipSpace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i])) i++;
+  return i;
+}
+
+// i에서 시작하는 JSON 값의 끝 (exclusive)
+function scanValue(text: string, i: number): number {
+  if (text[i] === '"') return scanString(text, i);
+  if (text[i] !== "{" && text[i] !== "[") {
+    let end = i;
+    while (end < text.length && !/[\s,}\]]/.test(text[end])) end++;
+    return end;
+  }
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    const ch = text[j];
+    if (ch === '"') j = scanString(text, j) - 1;
+    else if (ch === "{" || ch === "[") depth++;
+    else if ((ch === "}" || ch === "]") && --depth === 0) return j + 1;
+  }
+  return text.length;
+}
+
+// objStart의 { ... }에서 key 값의 범위 (같은 key가 여러 번이면 JSON.parse처럼 마지막)
+function findMemberRange(
+  text: string,
+  objStart: number,
+  key: string
+): { start: number; end: number } | null {
+  let found: { start: number; end: number } | null = null;
+  let i = skipSpace(text, objStart + 1);
+  while (text[i] === '"') {
+    const keyEnd = scanString(text, i);
+    let name: unknown;
+    try {
+      name = JSON.parse(text.slice(i, keyEnd));
+    } catch {
+      return null;
+    }
+    i = skipSpace(text, keyEnd);
+    if (text[i] !== ":") return null;
+
+    const start = skipSpace(text, i + 1);
+    const end = scanValue(text, start);
+    if (name === key) found = { start, end };
+
+    i = skipSpace(text, end);
+    if (text[i] !== ",") break;
+    i = skipSpace(text, i + 1);
+  }
+  return found;
+}
+
+/**
+ * 중첩 key 경로의 값 위치 (예: ["ng", "selector"])
+ * - findJsonValueRange와 달리 객체 구조를 따라감 (다른 깊이의 같은 key는 무시)
+ * - 값이 객체/배열이면 괄호 포함 범위
+ */
+export function findJsonPathRange(
+  text: string,
+  keys: string[]
+): { start: number; end: number } | null {
+  let range = { start: skipSpace(text, 0), end: text.length };
+  for (const key of keys) {
+    if (text[range.start] !== "{") return null;
+    const next = findMemberRange(text, range.start, key);
+    if (!next) return null;
+    range = next;
+  }
+  return range;
+}
+
+// 한 줄짜리 값: ["a", "b"] / { "k": 1 }
+function inlineJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(inlineJson).join(", ")}]`;
+  if (value && typeof value === "object") {
+    const members = Object.entries(value).map(
+      ([k, v]) => `${JSON.stringify(k)}: ${inlineJson(v)}`
+    );
+    return members.length ? `{ ${members.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value);
+}
+
+// 기존 값 모양대로 (여러 줄이었으면 파일의 들여쓰기 단위로 여러 줄)
+function renderJsonValue(text: string, at: number, old: string, value: any) {
+  if (!old.includes("\n") || value === null || typeof value !== "object") {
+    return inlineJson(value);
+  }
+  const lineStart = text.lastIndexOf("\n", at - 1) + 1;
+  const indent = /^[ \t]*/.exec(text.slice(lineStart))![0];
+  const unit = /\n([ \t]+)\S/.exec(text)?.[1] ?? "  ";
+  return JSON.stringify(value, null, unit).replaceAll("\n", "\n" + indent);
+}
+
+/**
+ * key 경로의 값들을 바꾼 텍스트
+ * - 값 부분만 바꾸고 나머지(들여쓰기, 키 순서, 다른 값 모양)는 그대로
+ * - 경로 중 하나라도 없으면 JSON.parse 후 채워서 다시 씀 (2칸 들여쓰기)
+ */
+export function setJsonValues(
+  text: string,
+  edits: Array<{ keys: string[]; value: unknown }>
+): string {
+  const located = edits.map((e) => ({
+    ...e,
+    range: findJsonPathRange(text, e.keys),
+  }));
+
+  if (located.every((e) => e.range)) {
+    let out = text;
+    for (const { range, value } of located.sort(
+      (a, b) => b.range!.start - a.range!.start
+    )) {
+      const { start, end } = range!;
+      const next = renderJsonValue(text, start, text.slice(start, end), value);
+      out = out.slice(0, start) + next + out.slice(end);
+    }
+    return out;
+  }
+
+  const json = JSON.parse(text);
+  for (const { keys, value } of edits) {
+    let target = json;
+    for (const key of keys.slice(0, -1)) {
+      if (!target[key] || typeof target[key] !== "object") target[key] = {};
+      target = target[key];
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  const out = JSON.stringify(json, null, 2);
+  return text.endsWith("\n") ? out + "\n" : out;
+}
+
+/**
+ * offset -> 0 기반 line/character
+ */
+export function offsetToLineCol(text: string, offset: number) {
+  const clamped = Math.max(0, Math.min(offset, text.length));
+  let line = 0;
+  let lineStart = 0;
+  for (let i = 0; i < clamped; i++) {
+    if (text[i] === "\n") {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+  return { line, character: clamped - lineStart };
+}
+
+function parseErrorOffset(e: unknown, text: string): number {
+  const m = /position (\d+)/.exec(String((e as any)?.message ?? e));
+  return m ? Math.min(Number(m[1]), text.length) : 0;
+}
+
+/**
+ * app.json 검증
+ * - baseFsPath: wiz 폴더의 "부모" 폴더 경로 (buildTemplate과 동일한 기준)
+ */
+export function validateAppJson(
+  text: string,
+  baseFsPath: string
+): AppJsonIssue[] {
+  const issues: AppJsonIssue[] = [];
+
+  const at = (field: string) =>
+    findJsonValueRange(text, field) ?? { start: 0, end: 0 };
+  const report = (
+    field: string,
+    message: string,
+    severity: AppJsonIssueSeverity = "error"
+  ) => issues.push({ field, message, severity, ...at(field) });
+
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const offset = parseErrorOffset(e, text);
+    issues.push({
+      field: "",
+      message: `app.json을 파싱할 수 없습니다: ${(e as any)?.message ?? e}`,
+      severity: "error",
+      start: offset,
+      end: Math.min(offset + 1, text.length),
+    });
+    return issues;
+  }
+
+  if (!json || typeof json !== "object" || Array.isArray(json)) {
+    issues.push({
+      field: "",
+      message: "app.json은 객체여야 합니다.",
+      severity: "error",
+      start: 0,
+      end: text.length,
+    });
+    return issues;
+  }
+
+  // 1) mode
+  if (json.mode == null || json.mode === "") {
+    report("mode", "mode가 없습니다.");
+    return issues;
+  }
+  if (!isWizMode(json.mode)) {
+    report("mode", `알 수 없는 mode입니다: "${json.mode}"`);
+    return issues;
+  }
+  const mode: WizMode = json.mode;
+
+  // 2) id
+  const id = json.id;
+  if (typeof id !== "string" || !id.trim()) {
+    report("id", "id가 없습니다.");
+    return issues;
+  }
+
+  const prefix = makeDefaultIdPrefix(mode);
+  if (prefix && (!id.startsWith(prefix) || id === prefix)) {
+    report(
+      "id",
+      `id는 "${prefix}"로 시작하고 뒤에 namespace가 있어야 합니다. (예: ${mode}.nav.admin)`
+    );
+    return issues;
+  }
+
+  // 3) namespace
+  const { namespace: expectedNs } = deriveIdAndNamespace(mode, id);
+  if (typeof json.namespace !== "string") {
+    report("namespace", `namespace가 없습니다. (예상: "${expectedNs}")`);
+  } else if (json.namespace !== expectedNs) {
+    report(
+      "namespace",
+      `namespace가 id와 맞지 않습니다. (예상: "${expectedNs}")`
+    );
+  }
+
+  // 4) template
+  let expectedTemplate: string;
+  try {
+    expectedTemplate = buildTemplate(mode, expectedNs, baseFsPath);
+  } catch (e: any) {
+    report("mode", e?.message ?? String(e));
+    return issues;
+  }
+
+  if (typeof json.template !== "string") {
+    report("template", `template이 없습니다. (예상: "${expectedTemplate}")`);
+  } else if (json.template !== expectedTemplate) {
+    report("template", `template이 "${expectedTemplate}"와 다릅니다.`);
+  }
+
+  return issues;
+}
+
+/**
+ * app.json의 id/namespace/template만 교체 (나머지 필드/순서/서식 유지)
+ * - ng가 있으면 ng.selector도 template 태그로 (view.ts 기준 drift 경고 방지)
+ * - 바꿀 key가 없으면 JSON.stringify로 다시 씀 (2칸 들여쓰기)
+ */
+export function updateAppJsonIdentity(
+  text: string,
+  identity: { id: string; namespace: string; template: string }
+): string {
+  const json = JSON.parse(text);
+  const edits: Array<{ keys: string[]; value: unknown }> = [
+    { keys: ["id"], value: identity.id },
+    { keys: ["namespace"], value: identity.namespace },
+    { keys: ["template"], value: identity.template },
+  ];
+  if (json.ng && typeof json.ng === "object" && !Array.isArray(json.ng)) {
+    edits.push({
+      keys: ["ng", "selector"],
+      value: templateTagName(identity.template),
+    });
+  }
+
+  return setJsonValues(text, edits);
+}
@@ -0,0 +1,84 @@
+// src/lib/bulk-rename.ts
+// Wiz Explorer 여러 항목 이름 한 번에 바꾸기 (find/replace, prefix 변경)
+
+export type BulkRenameRule =
+  | { kind: "replace"; find: string; replace: string }
+  | { kind: "prefix"; from: string; to: string };
+
+export interface BulkRenamePlan {
+  renames: Array<{ from: string; to: string }>;
+  errors: Array<{ name: string; message: string }>;
+}
+
+export function applyRenameRule(name: string, rule: BulkRenameRule): string {
+  if (rule.kind === "replace") {
+    return rule.find ? name.replaceAll(rule.find, rule.replace) : name;
+  }
+  // prefix: 해당 prefix로 시작하는 이름만
+  return name.startsWith(rule.from)
+    ? rule.to + name.slice(rule.from.length)
+    : name;
+}
+
+// prefix 입력 기본값용
+export function commonPrefix(names: string[]): string {
+  if (!names.length) return "";
+  let prefix = names[0];
+  for (const n of names.slice(1)) {
+    let i = 0;
+    while (i < prefix.length && i < n.length && prefix[i] === n[i]) i++;
+    prefix = prefix.slice(0, i);
+  }
+  return prefix;
+}
+
+/**
+ * 같은 폴더 안 이름들 기준 rename 계획
+ * - 바뀌지 않는 이름은 제외
+ * - 빈 이름 / 경로 구분자 / 결과 이름 중복은 errors (해당 항목은 renames에서 빠짐)
+ */
+export function computeBulkRename(
+  names: string[],
+  rule: BulkRenameRule
+): BulkRenamePlan {
+  const plan: BulkRenamePlan = { renames: [], errors: [] };
+
+  const candidates: Array<{ from: string; to: string }> = [];
+  for (const from of names) {
+    const to = applyRenameRule(from, rule).trim();
+    if (to === from) continue;
+
+    if (!to || to === "." || to === "..") {
+      plan.errors.push({ name: from, message: "이름이 비어 있습니다." });
+      continue;
+    }
+    if (to.includes("/") || to.includes("\\")) {
+      plan.errors.push({
+        name: from,
+        message: "경로 구분자(/, \\)는 사용할 수 없습니다.",
+      });
+      continue;
+    }
+    candidates.push({ from, to });
+  }
+
+  // 결과 이름 중복 (바뀌지 않는 이름과 겹치는 것 포함)
+  const unchanged = new Set(
+    names.filter((n) => !candidates.some((c) => c.from === n))
+  );
+  const counts = new Map<string, number>();
+  for (const c of candidates) counts.set(c.to, (counts.get(c.to) ?? 0) + 1);
+
+  for (const c of candidates) {
+    if ((counts.get(c.to) ?? 0) > 1 || unchanged.has(c.to)) {
+      plan.errors.push({
+        name: c.from,
+        message: `"${c.to}" 이름이 겹칩니다.`,
+      });
+      continue;
+    }
+    plan.renames.push(c);
+  }
+
+  return plan;
+}
@@ -0,0 +1,249 @@
+// src/lib/fs-history.ts
+// Season Explorer undo/redo 기록 (vscode 의존 없음: uri 타입은 제네릭)
+import * as path from "path";
+
+// 큰 내용은 extension storage 파일(blob)로 내보내고 참조만 들고 있음
+export type BlobRef = { blob: string };
+export type Payload = Uint8Array | BlobRef;
+
+// P: 메모리에서는 Payload, workspaceState에서는 SerializedPayload
+export type DirSnapshot<P = Payload> = {
+  // 복구 순서 보장 위해 dirs/files 분리
+  dirs: string[]; // folder root 기준 상대경로들 ("" 포함 가능)
+  files: Array<{ rel: string; contents: P }>;
+};
+
+export type FsOpOf<U, P = Payload> =
+  | { type: "createFile"; uri: U; contents?: P }
+  | { type: "deleteFile"; uri: U; contents: P }
+  | { type: "writeFile"; uri: U; before: P; after: P }
+  | { type: "rename"; from: U; to: U }
+  | { type: "mkdir"; uri: U }
+  | { type: "rmdir"; uri: U; snapshot: DirSnapshot<P> }
+  // label: History view 표시용 (없으면 describeOp가 내용으로 추정)
+  | { type: "batch"; ops: FsOpOf<U, P>[]; label?: string };
+
+export type HistoryEntry<U> = {
+  op: FsOpOf<U>;
+  at: number; // 기록 시각 (ms)
+};
+
+export function isBlobRef(p: Payload | undefined): p is BlobRef {
+  return !!p && !(p instanceof Uint8Array) && typeof p.blob === "string";
+}
+
+export function mapOpUris<A, B, P = Payload>(
+  op: FsOpOf<A, P>,
+  f: (u: A) => B
+): FsOpOf<B, P> {
+  switch (op.type) {
+    case "rename":
+      return { ...op, from: f(op.from), to: f(op.to) };
+    case "batch":
+      return { ...op, ops: op.ops.map((inner) => mapOpUris(inner, f)) };
+    default:
+      return { ...op, uri: f(op.uri) };
+  }
+}
+
+// op가 건드리는 uri 전부 (batch 포함)
+export function collectOpUris<U, P = Payload>(op: FsOpOf<U, P>): U[] {
+  const out: U[] = [];
+  mapOpUris(op, (u) => {
+    out.push(u);
+    return u;
+  });
+  return out;
+}
+
+export function mapOpPayloads<U, A, B>(
+  op: FsOpOf<U, A>,
+  f: (p: A) => B
+): FsOpOf<U, B> {
+  switch (op.type) {
+    case "createFile":
+      return op.contents === undefined
+        ? { type: op.type, uri: op.uri }
+        : { ...op, contents: f(op.contents) };
+    case "deleteFile":
+      return { ...op, contents: f(op.contents) };
+    case "writeFile":
+      return { ...op, before: f(op.before), after: f(op.after) };
+    case "rmdir":
+      return {
+        ...op,
+        snapshot: {
+          dirs: op.snapshot.dirs,
+          files: op.snapshot.files.map((file) => ({
+            rel: file.rel,
+            contents: f(file.contents),
+          })),
+        },
+      };
+    case "batch":
+      return { ...op, ops: op.ops.map((inner) => mapOpPayloads(inner, f)) };
+    default:
+      return op;
+  }
+}
+
+export function forEachPayload<U, P = Payload>(
+  op: FsOpOf<U, P>,
+  f: (p: P) => void
+) {
+  mapOpPayloads(op, (p) => {
+    f(p);
+    return p;
+  });
+}
+
+export function collectBlobIds<U>(entries: HistoryEntry<U>[]): Set<string> {
+  const ids = new Set<string>();
+  for (const e of entries) {
+    forEachPayload(e.op, (p) => {
+      if (isBlobRef(p)) ids.add(p.blob);
+    });
+  }
+  return ids;
+}
+
+// 아직 blob으로 안 내보낸 내용의 총 크기 (폴더 snapshot 파일들 포함)
+export function inlinePayloadBytes<U>(op: FsOpOf<U>): number {
+  let total = 0;
+  forEachPayload(op, (p) => {
+    if (!isBlobRef(p)) total += p.byteLength;
+  });
+  return total;
+}
+
+/**
+ * 크기/기간 제한 적용
+ * - entries: 오래된 것 -> 최근 것 순서 (stack 그대로)
+ * - maxEntries <= 0 / maxAgeMs <= 0 이면 해당 제한 없음
+ */
+export function pruneHistory<U>(
+  entries: HistoryEntry<U>[],
+  limits: { maxEntries: number; maxAgeMs: number; now: number }
+): HistoryEntry<U>[] {
+  let kept = entries;
+
+  if (limits.maxAgeMs > 0) {
+    const cutoff = limits.now - limits.maxAgeMs;
+    kept = kept.filter((e) => e.at >= cutoff);
+  }
+
+  if (limits.maxEntries > 0 && kept.length > limits.maxEntries) {
+    kept = kept.slice(kept.length - limits.maxEntries);
+  }
+
+  return kept;
+}
+
+// ---- 직렬화 (workspaceState 저장용) ----
+export type SerializedPayload = BlobRef | { inline: string };
+
+export type SerializedOp = FsOpOf<string, SerializedPayload>;
+
+export type SerializedEntry = {
+  op: SerializedOp;
+  at: number;
+};
+
+export function encodePayload(p: Payload): SerializedPayload {
+  if (isBlobRef(p)) return { blob: p.blob };
+  return { inline: Buffer.from(p).toString("base64") };
+}
+
+export function decodePayload(p: SerializedPayload): Payload {
+  if ("blob" in p) return { blob: p.blob };
+  return new Uint8Array(Buffer.from(p.inline, "base64"));
+}
+
+export function serializeEntry<U>(
+  entry: HistoryEntry<U>,
+  uriToString: (u: U) => string
+): SerializedEntry {
+  const op = mapOpPayloads(mapOpUris(entry.op, uriToString), encodePayload);
+  return { op, at: entry.at };
+}
+
+export function deserializeEntry<U>(
+  entry: SerializedEntry,
+  parseUri: (s: string) => U
+): HistoryEntry<U> {
+  const op = mapOpPayloads(mapOpUris(entry.op, parseUri), decodePayload);
+  return { op, at: entry.at };
+}
+
+// ---- 표시용 라벨 ----
+/**
+ * 사람이 읽을 수 있는 설명
+ * - toPath: 워크스페이스 기준 상대경로 ("/" 구분)
+ * 예) "Created Wiz page page.nav.admin (8 files)", "Moved 3 items to src/app"
+ */
+export function describeOp<U>(op: FsOpOf<U>, toPath: (u: U) => string): string {
+  const name = (u: U) => path.posix.basename(toPath(u));
+  const dir = (u: U) => path.posix.dirname(toPath(u));
+
+  switch (op.type) {
+    case "createFile":
+      return `Created file ${name(op.uri)}`;
+    case "deleteFile":
+      return `Deleted file ${name(op.uri)}`;
+    case "writeFile":
+      return `Edited ${name(op.uri)}`;
+    case "mkdir":
+      return `Created folder ${name(op.uri)}`;
+    case "rmdir":
+      return `Deleted folder ${name(op.uri)}`;
+    case "rename":
+      return dir(op.from) === dir(op.to)
+        ? `Renamed ${name(op.from)} to ${name(op.to)}`
+        : `Moved ${name(op.from)} to ${dir(op.to)}`;
+    case "batch":
+      return describeBatch(op, toPath, name, dir);
+  }
+}
+
+function describeBatch<U>(
+  op: Extract<FsOpOf<U>, { type: "batch" }>,
+  toPath: (u: U) => string,
+  name: (u: U) => string,
+  dir: (u: U) => string
+): string {
+  if (op.label) return op.label;
+  if (op.ops.length === 1) return describeOp(op.ops[0], toPath);
+
+  const plural = (n: number, word: string) =>
+    `${n} ${word}${n === 1 ? "" : "s"}`;
+
+  // mkdir + 파일들 (+ app.json) => wiz page 생성
+  const [first] = op.ops;
+  const created = op.ops.filter((o) => o.type === "createFile");
+  if (
+    first?.type === "mkdir" &&
+    created.length === op.ops.length - 1 &&
+    created.some((o) => name(o.uri) === "app.json")
+  ) {
+    return `Created Wiz page ${name(first.uri)} (${plural(created.length, "file")})`;
+  }
+
+  // rename만 => 이동
+  const renames = op.ops.filter((o) => o.type === "rename");
+  if (renames.length === op.ops.length) {
+    const dests = new Set(renames.map((o) => dir(o.to)));
+    if (dests.size === 1) {
+      return `Moved ${plural(renames.length, "item")} to ${[...dests][0]}`;
+    }
+    return `Moved ${plural(renames.length, "item")}`;
+  }
+
+  const deleted = op.ops.filter(
+    (o) => o.type === "deleteFile" || o.type === "rmdir"
+  );
+  if (deleted.length === op.ops.length) {
+    return `Deleted ${plural(deleted.length, "item")}`;
+  }
+
+  return plural(op.ops.length, "operation");
+}
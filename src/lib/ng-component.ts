@@ -0,0 +1,293 @@
+// src/lib/ng-component.ts
+// view.ts의 export class Component -> app.json ng.selector / inputs / outputs
+import { AppJsonIssue, findJsonValueRange, setJsonValues } from "./app-json";
+import { templateTagName } from "./template-usages";
+
+export interface NgMembers {
+  inputs: string[];
+  outputs: string[];
+}
+
+export interface NgFields extends NgMembers {
+  selector: string;
+}
+
+// 주석 -> 공백 (offset 유지)
+function blankComments(text: string): string {
+  return text.replaceAll(
+    /\/\*[\s\S]*?\*\/|\/\/[^\n]*|(["'`])(?:\\[\s\S]|(?!\1)[^\\])*\1/g,
+    (m) => (m.startsWith("/") ? m.replaceAll(/[^\n]/g, " ") : m)
+  );
+}
+
+// 문자열 리터럴 끝 (시작 따옴표 위치 -> 닫는 따옴표 다음)
+function skipString(text: string, i: number): number {
+  const quote = text[i];
+  for (let j = i + 1; j < text.length; j++) {
+    if (text[j] === "\\") j++;
+    else if (text[j] === quote) return j + 1;
+  }
+  return text.length;
+}
+
+/**
+ * class body에서 멤버 선언 수준(depth 0)만 남기고 나머지 { ... }는 공백
+ * - 메서드 본문, 객체 초기값 등
+ * - 괄호 안 { } (예: @Input({ alias }) / input(x, { alias }))는 유지
+ */
+function memberLevel(body: string): string {
+  const out = body.split("");
+  const stack: string[] = [];
+  let blankFrom = -1; // 이 위치부터 공백 처리 중인 { (depth 0에서 열림)
+
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      const end = skipString(body, i);
+      if (blankFrom !== -1) {
+        for (let j = i; j < end; j++) if (out[j] !== "\n") out[j] = " ";
+      }
+      i = end - 1;
+      continue;
+    }
+    if (ch === "(" || ch === "[" || ch === "{") {
+      if (ch === "{" && stack.length === 0) blankFrom = i;
+      stack.push(ch);
+    } else if (ch === ")" || ch === "]" || ch === "}") {
+      stack.pop();
+      if (ch === "}" && stack.length === 0 && blankFrom !== -1) {
+        for (let j = blankFrom; j <= i; j++) if (out[j] !== "\n") out[j] = " ";
+        blankFrom = -1;
+      }
+    }
+  }
+  return out.join("");
+}
+
+// open 위치의 괄호에 맞는 닫는 괄호 위치
+function matchingBracket(text: string, open: number): number {
+  const pairs: Record<string, string> = { "(": ")", "{": "}", "[": "]" };
+  const stack: string[] = [];
+  for (let i = open; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'" || ch === "`") {
+      i = skipString(text, i) - 1;
+      continue;
+    }
+    if (pairs[ch]) stack.push(pairs[ch]);
+    else if (ch === stack[stack.length - 1]) {
+      stack.pop();
+      if (!stack.length) return i;
+    }
+  }
+  return -1;
+}
+
+function aliasOf(args: string): string | null {
+  const literal = /^\s*["']([^"']+)["']\s*$/.exec(args);
+  if (literal) return literal[1];
+  const prop = /\balias\s*:\s*["']([^"']+)["']/.exec(args);
+  return prop ? prop[1] : null;
+}
+
+const MODIFIERS = String.raw`(?:(?:public|private|protected|readonly|override|declare|static)\s+)*`;
+const NAME = String.raw`([A-Za-z_$][\w$]*)`;
+
+/**
+ * export class Component의 @Input()/@Output() 멤버와 input()/output() signal
+ * - alias 있으면 alias 이름
+ * - export class Component가 없으면 null
+ */
+export function parseNgMembers(viewTs: string): NgMembers | null {
+  const text = blankComments(viewTs);
+  const m = /export\s+(?:default\s+)?class\s+Component\b[^{]*\{/.exec(text);
+  if (!m) return null;
+
+  const open = m.index + m[0].length - 1;
+  const close = matchingBracket(text, open);
+  const body = memberLevel(
+    text.slice(open + 1, close === -1 ? text.length : close)
+  );
+
+  const found: Array<{ at: number; kind: "input" | "output"; name: string }> =
+    [];
+
+  // @Input() name / @Input('alias') set name(...) / @Output() name = new EventEmitter()
+  const decorator = new RegExp(
+    String.raw`@(Input|Output)\s*\(`.concat(
+      "([^)]*)",
+      String.raw`\)\s*`,
+      MODIFIERS,
+      String.raw`(?:(?:set|get)\s+)?`,
+      NAME
+    ),
+    "g"
+  );
+  for (const d of body.matchAll(decorator)) {
+    found.push({
+      at: d.index,
+      kind: d[1] === "Input" ? "input" : "output",
+      name: aliasOf(d[2]) ?? d[3],
+    });
+  }
+
+  // name = input<T>(...) / input.required<T>(...) / output<T>(...)
+  const signal = new RegExp(
+    String.raw`(?:^|[\s;])`.concat(
+      MODIFIERS,
+      NAME,
+      String.raw`\s*[!?]?\s*(?::[^=;]+)?=\s*(input|output)\s*(?:\.required\s*)?(?:<[^;()]*>\s*)?\(`
+    ),
+    "g"
+  );
+  for (const s of body.matchAll(signal)) {
+    const parenAt = s.index + s[0].length - 1;
+    const end = matchingBracket(body, parenAt);
+    const args = end === -1 ? "" : body.slice(parenAt + 1, end);
+    found.push({
+      at: s.index,
+      kind: s[2] === "input" ? "input" : "output",
+      name: aliasOf(args.replace(/^[^,]*,/, "")) ?? s[1],
+    });
+  }
+
+  found.sort((a, b) => a.at - b.at);
+  const names = (kind: "input" | "output") => [
+    ...new Set(found.filter((f) => f.kind === kind).map((f) => f.name)),
+  ];
+  return { inputs: names("input"), outputs: names("output") };
+}
+
+// app.json template -> ng.selector (template이 없으면 기존 값 유지)
+export function expectedNgFields(json: any, members: NgMembers): NgFields {
+  const tag =
+    typeof json?.template === "string" ? templateTagName(json.template) : "";
+  const current =
+    typeof json?.ng?.selector === "string" ? json.ng.selector : "";
+  return { selector: tag || current, ...members };
+}
+
+function sameList(a: unknown, b: string[]) {
+  return (
+    Array.isArray(a) && a.length === b.length && a.every((x, i) => x === b[i])
+  );
+}
+
+function parseObject(text: string): any | null {
+  try {
+    const json = JSON.parse(text);
+    return json && typeof json === "object" && !Array.isArray(json)
+      ? json
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * app.json ng 필드를 view.ts 기준으로 갱신한 텍스트
+ * - 바뀔 게 없거나 JSON 객체가 아니면 null
+ * - ng의 다른 필드와 나머지 키 순서/서식은 유지
+ */
+export function syncNgAppJson(text: string, members: NgMembers): string | null {
+  const json = parseObject(text);
+  if (!json) return null;
+
+  const expected = expectedNgFields(json, members);
+  const ng = json.ng && typeof json.ng === "object" ? json.ng : {};
+  if (
+    ng.selector === expected.selector &&
+    sameList(ng.inputs, expected.inputs) &&
+    sameList(ng.outputs, expected.outputs)
+  ) {
+    return null;
+  }
+
+  // ng가 통째로 없으면 새 블록, 있으면 필드 값만 교체 (서식 유지)
+  if (!json.ng || typeof json.ng !== "object" || Array.isArray(json.ng)) {
+    return setJsonValues(text, [{ keys: ["ng"], value: expected }]);
+  }
+  return setJsonValues(
+    text,
+    (["selector", "inputs", "outputs"] as const).map((key) => ({
+      keys: ["ng", key],
+      value: expected[key],
+    }))
+  );
+}
+
+/**
+ * app.json ng가 view.ts와 다르면 경고 (위치는 "ng" 값 시작)
+ * - ng 블록이 없는 예전 app.json은 검사하지 않음 (view.ts 저장 시 채워짐)
+ * - ng에 없는 inputs/outputs는 빈 목록으로 봄
+ */
+export function ngDriftIssues(
+  text: string,
+  members: NgMembers
+): AppJsonIssue[] {
+  const json = parseObject(text);
+  const ng = json?.ng;
+  if (!ng || typeof ng !== "object" || Array.isArray(ng)) return [];
+
+  const expected = expectedNgFields(json, members);
+  const range = findJsonValueRange(text, "ng") ?? { start: 0, end: 0 };
+  const issue = (message: string): AppJsonIssue => ({
+    field: "ng",
+    message,
+    severity: "warning",
+    ...range,
+  });
+
+  const issues: AppJsonIssue[] = [];
+  if (expected.selector && ng.selector !== expected.selector) {
+    issues.push(
+      issue(`ng.selector가 template과 다릅니다. (예상: "${expected.selector}")`)
+    );
+  }
+  for (const key of ["inputs", "outputs"] as const) {
+    if (!sameList(ng[key] ?? [], expected[key])) {
+      const list = expected[key].join(", ") || "없음";
+      issues.push(issue(`ng.${key}가 view.ts와 다릅니다. (view.ts: ${list})`));
+    }
+  }
+  return issues;
+}
+
+export type TemplateSyntax = "pug" | "html";
+
+// Monaco/VS Code snippet 문법의 특수문자
+function escapeSnippet(text: string) {
+  return text.replaceAll(/[\\$}]/g, "\\$&");
+}
+
+/**
+ * app.json template + ng.inputs/outputs -> 드롭용 snippet
+ * - pug: wiz-component-card([title]="$1", (closed)="$2")
+ * - html: <wiz-component-card [title]="$1" (closed)="$2">$0</wiz-component-card>
+ * - template이 태그 하나가 아니면 null (snippet 대신 원문 삽입)
+ */
+export function buildTemplateSnippet(
+  template: string,
+  ng: any,
+  syntax: TemplateSyntax
+): string | null {
+  const tag = templateTagName(template);
+  if (!/^[A-Za-z][\w-]*$/.test(tag)) return null;
+
+  const names = (key: "inputs" | "outputs") =>
+    Array.isArray(ng?.[key])
+      ? ng[key].filter(
+          (n: unknown): n is string => typeof n === "string" && !!n
+        )
+      : [];
+  const attrs = [
+    ...names("inputs").map((n: string) => `[${n}]`),
+    ...names("outputs").map((n: string) => `(${n})`),
+  ].map((attr, i) => `${escapeSnippet(attr)}="$${i + 1}"`);
+
+  if (syntax === "html") {
+    const open = [tag, ...attrs].join(" ");
+    return `<${open}>$0</${tag}>`;
+  }
+  return `${tag}(${attrs.join(", ")})`;
+}
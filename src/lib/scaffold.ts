@@ -0,0 +1,74 @@
+// src/lib/scaffold.ts
+// New Wiz Page scaffold (.season/templates/<mode>/) 변수 치환
+import { WizMode, getPortalFromBaseFsPath } from "./wiz-utils";
+import { templateTagName } from "./template-usages";
+import { setJsonValues } from "./app-json";
+
+export interface ScaffoldVars {
+  mode: WizMode;
+  id: string;
+  namespace: string;
+  template: string;
+  folderName: string;
+  portalApp: string; // portal/<app> 밖이면 ""
+}
+
+export function scaffoldVars(opts: {
+  mode: WizMode;
+  id: string;
+  namespace: string;
+  template: string;
+  folderName: string;
+  baseFsPath: string; // 새 wiz 폴더의 부모
+}): ScaffoldVars {
+  return {
+    mode: opts.mode,
+    id: opts.id,
+    namespace: opts.namespace,
+    template: opts.template,
+    folderName: opts.folderName,
+    portalApp: getPortalFromBaseFsPath(opts.baseFsPath) ?? "",
+  };
+}
+
+/**
+ * {{id}}, {{ namespace }} ... 치환
+ * - 모르는 변수는 그대로 둠 (Angular/pug 문법의 {{ }}와 섞여 있을 수 있음)
+ */
+export function renderScaffold(text: string, vars: ScaffoldVars): string {
+  return text.replaceAll(/\{\{\s*(\w+)\s*\}\}/g, (m, name: string) =>
+    Object.hasOwn(vars, name) ? vars[name as keyof ScaffoldVars] : m
+  );
+}
+
+/**
+ * scaffold의 app.json에 mode/id/namespace/template 강제 (ng가 있으면 ng.selector도)
+ * - 나머지 필드와 순서는 유지
+ * - JSON 객체가 아니면 null (호출측에서 기본 app.json 사용)
+ */
+export function scaffoldAppJson(
+  text: string,
+  vars: ScaffoldVars
+): string | null {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) return null;
+
+  const edits: Array<{ keys: string[]; value: unknown }> = [
+    { keys: ["mode"], value: vars.mode },
+    { keys: ["id"], value: vars.id },
+    { keys: ["namespace"], value: vars.namespace },
+    { keys: ["template"], value: vars.template },
+  ];
+  if (json.ng && typeof json.ng === "object" && !Array.isArray(json.ng)) {
+    edits.push({
+      keys: ["ng", "selector"],
+      value: templateTagName(vars.template),
+    });
+  }
+  return setJsonValues(text, edits);
+}
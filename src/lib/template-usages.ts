@@ -0,0 +1,147 @@
+// src/lib/template-usages.ts
+import * as path from "path";
+import { isWizMode, deriveIdAndNamespace, buildTemplate } from "./wiz-utils";
+
+export interface TemplateUsage {
+  offset: number;
+  // 0 기반
+  line: number;
+  character: number;
+  length: number;
+  lineText: string;
+}
+
+/**
+ * app.json template -> 태그 이름
+ * 예) "wiz-component-nav-admin()" -> "wiz-component-nav-admin"
+ */
+export function templateTagName(template: string): string {
+  return String(template ?? "")
+    .trim()
+    .replace(/\(\s*\)$/, "")
+    .trim();
+}
+
+function tagRegExp(tag: string) {
+  const escaped = tag.replaceAll(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // 앞뒤가 [\w-]이면 다른 태그의 일부 (wiz-component-nav vs wiz-component-nav-admin)
+  return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, "g");
+}
+
+/**
+ * view.pug / view.html 텍스트에서 태그 사용 위치 찾기
+ * - pug: wiz-component-foo(...)
+ * - html: <wiz-component-foo ...></wiz-component-foo>
+ */
+export function findTemplateUsages(text: string, tag: string): TemplateUsage[] {
+  if (!tag) return [];
+
+  const out: TemplateUsage[] = [];
+  const lines = text.split("\n");
+  let lineOffset = 0;
+
+  for (let line = 0; line < lines.length; line++) {
+    const lineText = lines[line];
+    for (const m of lineText.matchAll(tagRegExp(tag))) {
+      out.push({
+        offset: lineOffset + m.index,
+        line,
+        character: m.index,
+        length: tag.length,
+        lineText: lineText.replace(/\r$/, ""),
+      });
+    }
+    lineOffset += lineText.length + 1;
+  }
+
+  return out;
+}
+
+export function replaceTemplateUsages(
+  text: string,
+  oldTag: string,
+  newTag: string
+): { text: string; count: number } {
+  if (!oldTag || oldTag === newTag) return { text, count: 0 };
+
+  let count = 0;
+  const next = text.replaceAll(tagRegExp(oldTag), () => {
+    count++;
+    return newTag;
+  });
+  return { text: next, count };
+}
+
+/**
+ * line 안에서 character 위치에 걸친 wiz-* 태그
+ * 예) "  wiz-component-nav-admin(title='a')" , 5 -> wiz-component-nav-admin
+ */
+export function tagAtPosition(
+  lineText: string,
+  character: number
+): { tag: string; start: number; end: number } | null {
+  for (const m of lineText.matchAll(/(?<![\w-])wiz-[\w-]*\w/g)) {
+    const start = m.index;
+    const end = start + m[0].length;
+    if (character >= start && character <= end) {
+      return { tag: m[0], start, end };
+    }
+  }
+  return null;
+}
+
+/**
+ * app.json 하나가 응답할 수 있는 태그들
+ * - 저장된 template
+ * - mode/id 규칙(namespaceToDash/buildTemplate)으로 계산한 template
+ *   (baseFsPath: wiz 폴더의 부모, portal app 이름 계산용)
+ */
+export function templateTagsForAppJson(json: any, baseFsPath: string) {
+  const tags = new Set<string>();
+
+  if (typeof json?.template === "string") {
+    const t = templateTagName(json.template);
+    if (t) tags.add(t);
+  }
+
+  if (isWizMode(json?.mode)) {
+    const ns =
+      typeof json.namespace === "string"
+        ? json.namespace
+        : typeof json.id === "string"
+          ? deriveIdAndNamespace(json.mode, json.id).namespace
+          : "";
+    try {
+      const t = templateTagName(buildTemplate(json.mode, ns, baseFsPath));
+      if (t) tags.add(t);
+    } catch {
+      // portal/<app> 밖의 portal 등은 규칙 계산 불가
+    }
+  }
+
+  return [...tags];
+}
+
+/**
+ * wiz-* 태그 -> 그 태그를 쓰는 wiz 폴더 (인덱스 메타 기준, 빈 값 = app.json에 없음)
+ */
+export function findWizFolderForTag<
+  T extends {
+    fsPath: string;
+    mode: string;
+    id: string;
+    namespace: string;
+    template: string;
+  },
+>(entries: T[], tag: string): T | undefined {
+  const orUndefined = (v: string) => v || undefined;
+  return entries.find((e) => {
+    const json = {
+      mode: e.mode,
+      id: orUndefined(e.id),
+      namespace: orUndefined(e.namespace),
+      template: orUndefined(e.template),
+    };
+    return templateTagsForAppJson(json, path.dirname(e.fsPath)).includes(tag);
+  });
+}
@@ -0,0 +1,69 @@
+// src/lib/wiz-completions.ts
+// wiz-* 태그 자동완성 항목 (Wiz 편집기 Pug/HTML 탭 + view.pug 텍스트 편집기)
+import { WizIndexEntry } from "./wiz-index";
+import { buildTemplateSnippet } from "./ng-component";
+import { templateTagName } from "./template-usages";
+
+// 다른 화면에 끼워 넣는 mode만 (page는 라우팅 대상)
+const EMBEDDABLE_MODES = new Set(["component", "layout", "portal"]);
+
+export interface WizTagCompletion {
+  tag: string;
+  mode: string;
+  id: string;
+  title: string;
+  inputs: string[];
+  outputs: string[];
+  pug: string; // snippet
+  html: string; // snippet
+  documentation: string; // markdown
+}
+
+function tagDocumentation(e: WizIndexEntry): string {
+  const lines = [`**${e.title || e.id || templateTagName(e.template)}**`, ""];
+  lines.push(`mode: \`${e.mode}\`${e.id ? ` · id: \`${e.id}\`` : ""}`);
+  if (e.inputs.length) {
+    lines.push("", `inputs: ${e.inputs.map((n) => `\`${n}\``).join(", ")}`);
+  }
+  if (e.outputs.length) {
+    lines.push("", `outputs: ${e.outputs.map((n) => `\`${n}\``).join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 인덱스 -> 자동완성 목록 (태그 이름순)
+ * - template이 태그 하나로 안 읽히는 폴더는 제외
+ * - 같은 태그가 여러 폴더에 있으면(중복 template) 첫 번째만
+ */
+export function wizTagCompletions(
+  entries: WizIndexEntry[]
+): WizTagCompletion[] {
+  const byTag = new Map<string, WizTagCompletion>();
+
+  const sorted = [...entries].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+  for (const e of sorted) {
+    if (!EMBEDDABLE_MODES.has(e.mode)) continue;
+
+    const ng = { inputs: e.inputs, outputs: e.outputs };
+    const pug = buildTemplateSnippet(e.template, ng, "pug");
+    const html = buildTemplateSnippet(e.template, ng, "html");
+    if (!pug || !html) continue;
+
+    const tag = templateTagName(e.template);
+    if (byTag.has(tag)) continue;
+    byTag.set(tag, {
+      tag,
+      mode: e.mode,
+      id: e.id,
+      title: e.title,
+      inputs: e.inputs,
+      outputs: e.outputs,
+      pug,
+      html,
+      documentation: tagDocumentation(e),
+    });
+  }
+
+  return [...byTag.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,47 @@
+// src/lib/wiz-decorations.ts
+// Wiz 폴더 FileDecoration (mode 배지 / app.json 문제 / 저장 안 된 탭)
+import { isWizMode } from "./wiz-utils";
+import { WizMeta } from "./wiz-index";
+
+const MODE_BADGES: Record<string, string> = {
+  page: "P",
+  component: "C",
+  layout: "L",
+  portal: "Po",
+};
+
+export function wizModeBadge(mode: string): string | undefined {
+  return MODE_BADGES[mode];
+}
+
+export interface WizDecoration {
+  badge: string; // FileDecoration badge는 2글자까지
+  tooltip: string;
+  tone?: "error" | "dirty";
+}
+
+export function wizAppJsonProblem(meta: WizMeta): string | null {
+  if (meta.appJson === "missing") return "app.json이 없습니다.";
+  if (meta.appJson === "invalid") return "app.json을 읽을 수 없습니다.";
+  if (meta.mode === "unknown") return "app.json에 mode가 없습니다.";
+  if (!isWizMode(meta.mode)) return `알 수 없는 mode: ${meta.mode}`;
+  return null;
+}
+
+/**
+ * 배지 우선순위: app.json 문제(!) > 저장 안 된 탭(●) > mode
+ * - tooltip에는 해당되는 것 전부
+ */
+export function wizFolderDecoration(
+  meta: WizMeta,
+  dirtyTabs: number
+): WizDecoration {
+  const problem = wizAppJsonProblem(meta);
+  const lines = [problem ?? `mode: ${meta.mode}`];
+  if (dirtyTabs > 0) lines.push(`저장 안 된 탭 ${dirtyTabs}개`);
+  const tooltip = lines.join("\n");
+
+  if (problem) return { badge: "!", tooltip, tone: "error" };
+  if (dirtyTabs > 0) return { badge: "●", tooltip, tone: "dirty" };
+  return { badge: wizModeBadge(meta.mode) ?? "", tooltip };
+}
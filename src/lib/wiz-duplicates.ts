@@ -0,0 +1,92 @@
+// src/lib/wiz-duplicates.ts
+// 워크스페이스 전체 app.json의 id / namespace / template 중복 검사
+import * as path from "path";
+import { getPortalFromBaseFsPath } from "./wiz-utils";
+import { WizIndexEntry } from "./wiz-index";
+
+export type DuplicateField = "id" | "namespace" | "template";
+
+export interface WizDuplicate {
+  field: DuplicateField;
+  value: string;
+  others: string[]; // 같은 값을 가진 다른 wiz 폴더 fsPath
+}
+
+// namespace는 같은 mode (portal은 같은 app) 안에서만 겹치면 문제
+function namespaceKey(e: WizIndexEntry) {
+  const app = getPortalFromBaseFsPath(path.dirname(e.fsPath)) ?? "";
+  return `${e.mode}\u0000${app}\u0000${e.namespace}`;
+}
+
+// portal id는 mode prefix가 없어서 ("header") 같은 app 안에서만 겹치면 문제
+function idKey(mode: string, baseFsPath: string, id: string) {
+  if (mode !== "portal") return id;
+  const app = getPortalFromBaseFsPath(baseFsPath) ?? "";
+  return `${mode}\u0000${app}\u0000${id}`;
+}
+
+const KEYS: Array<{
+  field: DuplicateField;
+  key: (e: WizIndexEntry) => string | null;
+}> = [
+  {
+    field: "id",
+    key: (e) => (e.id ? idKey(e.mode, path.dirname(e.fsPath), e.id) : null),
+  },
+  { field: "namespace", key: (e) => (e.namespace ? namespaceKey(e) : null) },
+  { field: "template", key: (e) => e.template || null },
+];
+
+/**
+ * fsPath -> 그 폴더의 중복 목록 (중복 없는 폴더는 없음)
+ */
+export function findWizDuplicates(
+  entries: WizIndexEntry[]
+): Map<string, WizDuplicate[]> {
+  const out = new Map<string, WizDuplicate[]>();
+
+  for (const { field, key } of KEYS) {
+    const groups = new Map<string, WizIndexEntry[]>();
+    for (const e of entries) {
+      const k = key(e);
+      if (!k) continue;
+      const arr = groups.get(k) ?? [];
+      arr.push(e);
+      groups.set(k, arr);
+    }
+
+    for (const group of groups.values()) {
+      if (group.length < 2) continue;
+      for (const e of group) {
+        const list = out.get(e.fsPath) ?? [];
+        list.push({
+          field,
+          value: e[field],
+          others: group.filter((o) => o !== e).map((o) => o.fsPath),
+        });
+        out.set(e.fsPath, list);
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * 새로 만들 id/template이 기존 wiz 폴더와 겹치면 그 폴더
+ * - baseFsPath: 새 wiz 폴더의 부모 폴더 (portal id는 같은 app끼리만 비교)
+ */
+export function findIdentityConflict(
+  entries: WizIndexEntry[],
+  identity: { mode: string; baseFsPath: string; id: string; template: string }
+): { entry: WizIndexEntry; field: "id" | "template" } | null {
+  const id = idKey(identity.mode, identity.baseFsPath, identity.id);
+  for (const entry of entries) {
+    const key = idKey(entry.mode, path.dirname(entry.fsPath), entry.id);
+    if (entry.id && key === id) return { entry, field: "id" };
+    if (entry.template && entry.template === identity.template) {
+      return { entry, field: "template" };
+    }
+  }
+  return null;
+}
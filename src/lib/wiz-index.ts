@@ -0,0 +1,157 @@
+// src/lib/wiz-index.ts
+// Wiz 폴더 인메모리 인덱스 (fsPath -> app.json 메타)
+// - 트리/검색이 매번 디스크를 다시 훑지 않도록 watcher 이벤트로 조금씩 갱신
+import * as path from "path";
+
+export interface WizMeta {
+  mode: string; // app.json에 없거나 파싱 실패면 "unknown"
+  id: string;
+  namespace: string;
+  template: string;
+  title: string;
+  category: string;
+  viewuri: string;
+  inputs: string[]; // ng.inputs (자동완성 문서용)
+  outputs: string[]; // ng.outputs
+  appJson: "ok" | "missing" | "invalid"; // invalid = JSON 객체가 아님
+}
+
+export interface WizIndexEntry extends WizMeta {
+  fsPath: string;
+}
+
+function field(json: any, key: string): string {
+  const v = json?.[key] ?? json?.[key[0].toUpperCase() + key.slice(1)];
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function names(json: any, key: "inputs" | "outputs"): string[] {
+  const v = json?.ng?.[key];
+  return Array.isArray(v) ? v.filter((n) => typeof n === "string" && n) : [];
+}
+
+// app.json 텍스트 -> 메타 (없거나 깨진 파일도 mode "unknown"으로 인덱스에 남김)
+export function parseWizMeta(text: string | null): WizMeta {
+  let json: any = null;
+  if (text != null) {
+    try {
+      json = JSON.parse(text);
+    } catch {
+      json = null;
+    }
+  }
+  if (!json || typeof json !== "object" || Array.isArray(json)) json = null;
+  const appJson = text == null ? "missing" : json ? "ok" : "invalid";
+
+  const rawMode = json?.mode ?? json?.Mode ?? json?.MODE;
+  const mode = String(rawMode ?? "unknown").trim() || "unknown";
+
+  return {
+    mode,
+    id: field(json, "id"),
+    namespace: field(json, "namespace"),
+    template: field(json, "template"),
+    title: field(json, "title"),
+    category: field(json, "category"),
+    viewuri: field(json, "viewuri"),
+    inputs: names(json, "inputs"),
+    outputs: names(json, "outputs"),
+    appJson,
+  };
+}
+
+// fsPath + app.json (텍스트 또는 파싱된 객체, 없으면 null) -> 인덱스 항목
+export function toWizIndexEntry(
+  fsPath: string,
+  appJson: string | object | null
+): WizIndexEntry {
+  const text =
+    appJson === null || typeof appJson === "string"
+      ? appJson
+      : JSON.stringify(appJson);
+  return { fsPath, ...parseWizMeta(text) };
+}
+
+export function isSameOrInsidePath(child: string, parent: string): boolean {
+  const rel = path.relative(parent, child);
+  return rel === "" || (!rel.startsWith("..") && !path.isAbsolute(rel));
+}
+
+function sameMeta(a: WizMeta, b: WizMeta) {
+  return (
+    a.mode === b.mode &&
+    a.id === b.id &&
+    a.namespace === b.namespace &&
+    a.template === b.template &&
+    a.title === b.title &&
+    a.category === b.category &&
+    a.viewuri === b.viewuri &&
+    a.inputs.join("\n") === b.inputs.join("\n") &&
+    a.outputs.join("\n") === b.outputs.join("\n") &&
+    a.appJson === b.appJson
+  );
+}
+
+export class WizIndex {
+  private readonly entries = new Map<string, WizIndexEntry>();
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(fsPath: string): WizIndexEntry | undefined {
+    return this.entries.get(fsPath);
+  }
+
+  has(fsPath: string): boolean {
+    return this.entries.has(fsPath);
+  }
+
+  all(): WizIndexEntry[] {
+    return [...this.entries.values()];
+  }
+
+  // 바뀐 게 있으면 true (새 항목 포함)
+  set(entry: WizIndexEntry): boolean {
+    const prev = this.entries.get(entry.fsPath);
+    this.entries.set(entry.fsPath, entry);
+    return !prev || !sameMeta(prev, entry);
+  }
+
+  delete(fsPath: string): WizIndexEntry | undefined {
+    const prev = this.entries.get(fsPath);
+    this.entries.delete(fsPath);
+    return prev;
+  }
+
+  // 폴더 삭제/이동: 그 아래 있던 wiz 폴더 전부
+  deleteUnder(fsPath: string): WizIndexEntry[] {
+    const removed: WizIndexEntry[] = [];
+    for (const [p, e] of this.entries) {
+      if (!isSameOrInsidePath(p, fsPath)) continue;
+      this.entries.delete(p);
+      removed.push(e);
+    }
+    return removed;
+  }
+
+  // dir 바로 아래 wiz 폴더 (이름순)
+  childrenOf(dir: string): WizIndexEntry[] {
+    return this.all()
+      .filter((e) => path.dirname(e.fsPath) === dir)
+      .sort((a, b) =>
+        path.basename(a.fsPath).localeCompare(path.basename(b.fsPath))
+      );
+  }
+
+  // dir 아래 전체 깊이 (dir 자신 제외)
+  under(dir: string): WizIndexEntry[] {
+    return this.all().filter(
+      (e) => e.fsPath !== dir && isSameOrInsidePath(e.fsPath, dir)
+    );
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
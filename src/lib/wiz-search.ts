@@ -0,0 +1,93 @@
+// src/lib/wiz-search.ts
+// Go to Wiz Page: app.json 필드 전체 fuzzy 검색
+import * as path from "path";
+import { WizIndexEntry } from "./wiz-index";
+
+const WORD_START = /[\s._\-/:]/;
+
+/**
+ * query 글자가 text에 순서대로 다 있으면 점수, 아니면 null
+ * - 연속으로 맞으면 / 단어 시작(. _ - / 뒤)에서 맞으면 가산점
+ * - 대소문자 무시
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  // 첫 글자 위치마다 앞에서부터 맞춰보고 가장 높은 점수
+  let best: number | null = null;
+  for (let start = t.indexOf(q[0]); start !== -1; ) {
+    const score = greedyScore(q, t, start);
+    if (score === null) break; // 뒤에서 시작하면 더 안 맞음
+    if (best === null || score > best) best = score;
+    start = t.indexOf(q[0], start + 1);
+  }
+  return best;
+}
+
+function greedyScore(q: string, t: string, start: number): number | null {
+  let score = 0;
+  let last = -2;
+  let ti = start;
+  for (const ch of q) {
+    const i = t.indexOf(ch, ti);
+    if (i === -1) return null;
+    score += 1;
+    if (i === last + 1) score += 2;
+    if (i === 0 || WORD_START.test(t[i - 1])) score += 3;
+    last = i;
+    ti = i + 1;
+  }
+  return score;
+}
+
+export function wizPageSearchFields(e: WizIndexEntry): string[] {
+  return [
+    e.id,
+    e.mode,
+    e.title,
+    e.category,
+    e.viewuri,
+    path.basename(e.fsPath),
+  ].filter(Boolean);
+}
+
+export function wizPageLabel(e: WizIndexEntry): string {
+  return e.id || path.basename(e.fsPath);
+}
+
+/**
+ * 공백으로 나눈 단어마다 어느 한 필드에는 맞아야 함 (AND)
+ * - 점수 높은 순, 같으면 label 순
+ */
+export function searchWizPages(
+  entries: WizIndexEntry[],
+  query: string
+): WizIndexEntry[] {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+
+  const scored: Array<{ entry: WizIndexEntry; score: number }> = [];
+  for (const entry of entries) {
+    const fields = wizPageSearchFields(entry);
+    let total = 0;
+    let ok = true;
+    for (const w of words) {
+      const best = Math.max(-1, ...fields.map((f) => fuzzyScore(w, f) ?? -1));
+      if (best < 0) {
+        ok = false;
+        break;
+      }
+      total += best;
+    }
+    if (ok) scored.push({ entry, score: total });
+  }
+
+  return scored
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        wizPageLabel(a.entry).localeCompare(wizPageLabel(b.entry))
+    )
+    .map((s) => s.entry);
+}
@@ -0,0 +1,137 @@
+// src/lib/wiz-tabs.ts
+// Wiz Folder Editor 탭 구성 (기본 탭 + seasonEditor.tabs / tabsByMode)
+import * as path from "path";
+import { isWizMode } from "./wiz-utils";
+
+export interface WizTab {
+  key: string;
+  label: string;
+  filename: string;
+  language: string; // Monaco language id
+}
+
+// settings.json 한 항목 (label/language 생략 가능)
+export interface WizTabSetting {
+  label?: string;
+  filename: string;
+  language?: string;
+}
+
+// wiz “폴더=문서”에 포함되는 기본 파일들
+// (key는 webview가 쓰는 이름: info = app.json 검증, pug/html = Go to Definition)
+export const DEFAULT_WIZ_TABS: readonly WizTab[] = [
+  { key: "info", label: "Info", filename: "app.json", language: "json" },
+  { key: "pug", label: "Pug", filename: "view.pug", language: "pug" },
+  {
+    key: "ts",
+    label: "Component",
+    filename: "view.ts",
+    language: "typescript",
+  },
+  { key: "scss", label: "SCSS", filename: "view.scss", language: "scss" },
+  { key: "html", label: "HTML", filename: "view.html", language: "html" },
+  { key: "api", label: "API", filename: "api.py", language: "python" },
+  { key: "socket", label: "Socket", filename: "socket.py", language: "python" },
+];
+
+// 이 중 하나라도 있으면 wiz 폴더
+export const DEFAULT_WIZ_FOLDER_MARKERS: readonly string[] = [
+  "view.pug",
+  "view.ts",
+  "api.py",
+  "socket.py",
+];
+
+const LANGUAGE_BY_EXT: Record<string, string> = {
+  ".json": "json",
+  ".pug": "pug",
+  ".ts": "typescript",
+  ".js": "javascript",
+  ".scss": "scss",
+  ".less": "less",
+  ".css": "css",
+  ".html": "html",
+  ".py": "python",
+  ".md": "markdown",
+  ".yaml": "yaml",
+  ".yml": "yaml",
+};
+
+export function languageForFilename(filename: string): string {
+  return LANGUAGE_BY_EXT[path.extname(filename).toLowerCase()] ?? "plaintext";
+}
+
+// 폴더 바로 아래 파일 이름만 허용 (경로/빈 값은 무시)
+function isPlainFilename(x: unknown): x is string {
+  return (
+    typeof x === "string" &&
+    !!x.trim() &&
+    !x.includes("/") &&
+    !x.includes("\\") &&
+    x !== "." &&
+    x !== ".."
+  );
+}
+
+function parseTabSettings(raw: unknown): WizTabSetting[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (t): t is WizTabSetting => !!t && isPlainFilename(t.filename)
+  );
+}
+
+/**
+ * 탭 목록 계산
+ * - extra: seasonEditor.tabs (모든 mode 공통 추가 탭)
+ * - byMode: seasonEditor.tabsByMode (해당 mode는 extra 대신 이 목록 사용)
+ * - 기본 탭과 filename이 같으면 새 탭 대신 label/language만 덮어씀
+ * - 추가 탭의 key = filename
+ */
+export function resolveTabs(opts: {
+  extra: unknown;
+  byMode: unknown;
+  mode?: string | null;
+}): WizTab[] {
+  const byMode =
+    opts.byMode && typeof opts.byMode === "object"
+      ? (opts.byMode as Record<string, unknown>)
+      : {};
+  const settings =
+    isWizMode(opts.mode) && Array.isArray(byMode[opts.mode])
+      ? parseTabSettings(byMode[opts.mode])
+      : parseTabSettings(opts.extra);
+
+  const tabs = DEFAULT_WIZ_TABS.map((t) => ({ ...t }));
+
+  for (const s of settings) {
+    const filename = s.filename.trim();
+    const label =
+      typeof s.label === "string" && s.label.trim() ? s.label.trim() : null;
+    const language =
+      typeof s.language === "string" && s.language.trim()
+        ? s.language.trim()
+        : null;
+
+    const existing = tabs.find((t) => t.filename === filename);
+    if (existing) {
+      if (label) existing.label = label;
+      if (language) existing.language = language;
+      continue;
+    }
+
+    tabs.push({
+      key: filename,
+      label: label ?? filename,
+      filename,
+      language: language ?? languageForFilename(filename),
+    });
+  }
+
+  return tabs;
+}
+
+// seasonEditor.wizFolderMarkers (비었거나 잘못되면 기본값)
+export function resolveWizFolderMarkers(raw: unknown): string[] {
+  const markers = Array.isArray(raw) ? raw.filter(isPlainFilename) : [];
+  return markers.length ? markers : [...DEFAULT_WIZ_FOLDER_MARKERS];
+}
@@ -0,0 +1,197 @@
+// src/test/app-json.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  findJsonPathRange,
+  findJsonValueRange,
+  offsetToLineCol,
+  setJsonValues,
+  validateAppJson,
+  updateAppJsonIdentity,
+} from "../lib/app-json";
+
+function appJson(fields: Record<string, unknown>) {
+  return JSON.stringify(fields, null, 2);
+}
+
+describe("app-json", () => {
+  it("findJsonValueRange: string value includes quotes", () => {
+    const text = '{ "id": "page.main", "n": 3 }';
+    const r = findJsonValueRange(text, "id");
+    assert.ok(r);
+    assert.equal(text.slice(r.start, r.end), '"page.main"');
+  });
+
+  it("findJsonValueRange: non-string value / missing key", () => {
+    const text = '{ "n": 3 ,\n "b": true }';
+    const r = findJsonValueRange(text, "n");
+    assert.ok(r);
+    assert.equal(text.slice(r.start, r.end), "3");
+    assert.equal(findJsonValueRange(text, "x"), null);
+  });
+
+  it("findJsonPathRange: follows nested objects and skips other depths", () => {
+    const text =
+      '{ "ng.build": { "id": "x" }, "ng": { "id": [1, "}"] }, "id": "top" }';
+    const at = (keys: string[]) => {
+      const r = findJsonPathRange(text, keys);
+      return r && text.slice(r.start, r.end);
+    };
+    assert.equal(at(["id"]), '"top"');
+    assert.equal(at(["ng", "id"]), '[1, "}"]');
+    assert.equal(at(["ng.build", "id"]), '"x"');
+    assert.equal(at(["ng", "selector"]), null);
+    assert.equal(at(["id", "x"]), null);
+  });
+
+  it("setJsonValues: keeps the file's formatting", () => {
+    const text =
+      '{\n\t"id": "a",\n\t"ng": {\n\t\t"inputs": [\n\t\t\t"x"\n\t\t],\n\t\t"outputs": []\n\t}\n}\n';
+    const out = setJsonValues(text, [
+      { keys: ["id"], value: "b" },
+      { keys: ["ng", "inputs"], value: ["y", "z"] },
+      { keys: ["ng", "outputs"], value: ["w"] },
+    ]);
+    assert.equal(
+      out,
+      '{\n\t"id": "b",\n\t"ng": {\n\t\t"inputs": [\n\t\t\t"y",\n\t\t\t"z"\n\t\t],\n\t\t"outputs": ["w"]\n\t}\n}\n'
+    );
+
+    // 없는 key가 있으면 다시 씀 (2칸 들여쓰기)
+    assert.equal(
+      setJsonValues('{"a":1}', [{ keys: ["b", "c"], value: 2 }]),
+      '{\n  "a": 1,\n  "b": {\n    "c": 2\n  }\n}'
+    );
+  });
+
+  it("offsetToLineCol: counts lines and columns", () => {
+    assert.deepEqual(offsetToLineCol("ab\ncd", 4), { line: 1, character: 1 });
+    assert.deepEqual(offsetToLineCol("ab", 99), { line: 0, character: 2 });
+  });
+
+  it("validateAppJson: valid component has no issues", () => {
+    const text = appJson({
+      mode: "component",
+      id: "component.nav.admin",
+      namespace: "nav.admin",
+      template: "wiz-component-nav-admin()",
+    });
+    assert.deepEqual(validateAppJson(text, "/x/src/app"), []);
+  });
+
+  it("validateAppJson: valid portal resolves app name from path", () => {
+    const text = appJson({
+      mode: "portal",
+      id: "header",
+      namespace: "header",
+      template: "wiz-portal-app1-header()",
+    });
+    assert.deepEqual(validateAppJson(text, "/x/portal/app1/src"), []);
+  });
+
+  it("validateAppJson: parse error", () => {
+    const issues = validateAppJson('{ "mode": ', "/x");
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].field, "");
+  });
+
+  it("validateAppJson: unknown mode", () => {
+    const text = appJson({ mode: "widget", id: "widget.a" });
+    const issues = validateAppJson(text, "/x");
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].field, "mode");
+    assert.equal(text.slice(issues[0].start, issues[0].end), '"widget"');
+  });
+
+  it("validateAppJson: id without mode prefix", () => {
+    const text = appJson({ mode: "page", id: "nav.admin" });
+    const issues = validateAppJson(text, "/x");
+    assert.deepEqual(
+      issues.map((i) => i.field),
+      ["id"]
+    );
+  });
+
+  it("validateAppJson: namespace and template mismatch", () => {
+    const text = appJson({
+      mode: "layout",
+      id: "layout.nav.admin",
+      namespace: "nav",
+      template: "wiz-layout-nav()",
+    });
+    const issues = validateAppJson(text, "/x");
+    assert.deepEqual(
+      issues.map((i) => i.field),
+      ["namespace", "template"]
+    );
+    assert.ok(issues[1].message.includes("wiz-layout-nav-admin()"));
+  });
+
+  it("validateAppJson: portal outside portal/<app> is reported on mode", () => {
+    const text = appJson({ mode: "portal", id: "a", namespace: "a" });
+    const issues = validateAppJson(text, "/x/src");
+    assert.deepEqual(
+      issues.map((i) => i.field),
+      ["mode"]
+    );
+  });
+
+  it("updateAppJsonIdentity: replaces identity and keeps other fields", () => {
+    const text =
+      appJson({
+        mode: "page",
+        id: "page.a",
+        title: "A",
+        namespace: "a",
+        template: "wiz-page-a()",
+      }) + "\n";
+    const out = updateAppJsonIdentity(text, {
+      id: "page.b",
+      namespace: "b",
+      template: "wiz-page-b()",
+    });
+    assert.ok(out.endsWith("}\n"));
+    assert.deepEqual(Object.keys(JSON.parse(out)), [
+      "mode",
+      "id",
+      "title",
+      "namespace",
+      "template",
+    ]);
+    assert.equal(JSON.parse(out).title, "A");
+    assert.equal(JSON.parse(out).template, "wiz-page-b()");
+  });
+
+  it("updateAppJsonIdentity: keeps user formatting", () => {
+    const text =
+      '{\n    "id": "page.a",\n    "tags": ["x", "y"],\n    "namespace": "a",\n    "template": "wiz-page-a()"\n}';
+    assert.equal(
+      updateAppJsonIdentity(text, {
+        id: "page.b",
+        namespace: "b",
+        template: "wiz-page-b()",
+      }),
+      '{\n    "id": "page.b",\n    "tags": ["x", "y"],\n    "namespace": "b",\n    "template": "wiz-page-b()"\n}'
+    );
+  });
+
+  it("updateAppJsonIdentity: keeps ng.selector in step with template", () => {
+    const text = appJson({
+      mode: "component",
+      template: "wiz-component-a()",
+      ng: { selector: "wiz-component-a", inputs: ["x"], outputs: [] },
+    });
+    const out = JSON.parse(
+      updateAppJsonIdentity(text, {
+        id: "component.b",
+        namespace: "b",
+        template: "wiz-component-b()",
+      })
+    );
+    assert.deepEqual(out.ng, {
+      selector: "wiz-component-b",
+      inputs: ["x"],
+      outputs: [],
+    });
+  });
+});
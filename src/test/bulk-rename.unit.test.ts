@@ -0,0 +1,69 @@
+// src/test/bulk-rename.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  applyRenameRule,
+  commonPrefix,
+  computeBulkRename,
+} from "../lib/bulk-rename";
+
+describe("bulk-rename", () => {
+  it("applyRenameRule: replace all occurrences / prefix only when matching", () => {
+    assert.equal(
+      applyRenameRule("component.nav.nav", {
+        kind: "replace",
+        find: "nav",
+        replace: "menu",
+      }),
+      "component.menu.menu"
+    );
+    const prefix = {
+      kind: "prefix",
+      from: "page.old.",
+      to: "page.new.",
+    } as const;
+    assert.equal(applyRenameRule("page.old.list", prefix), "page.new.list");
+    assert.equal(applyRenameRule("page.other", prefix), "page.other");
+  });
+
+  it("commonPrefix", () => {
+    assert.equal(
+      commonPrefix(["component.nav.a", "component.nav.b", "component.navx"]),
+      "component.nav"
+    );
+    assert.equal(commonPrefix([]), "");
+  });
+
+  it("computeBulkRename: skips unchanged, reports duplicates and invalid names", () => {
+    const plan = computeBulkRename(["a.ts", "b.ts", "ab.ts", "c.js"], {
+      kind: "replace",
+      find: "b",
+      replace: "",
+    });
+    // a.ts (unchanged), b.ts -> .ts, ab.ts -> a.ts (clashes with a.ts)
+    assert.deepEqual(plan.renames, [{ from: "b.ts", to: ".ts" }]);
+    assert.deepEqual(
+      plan.errors.map((e) => e.name),
+      ["ab.ts"]
+    );
+
+    const bad = computeBulkRename(["x", "y"], {
+      kind: "replace",
+      find: "x",
+      replace: "a/b",
+    });
+    assert.equal(bad.renames.length, 0);
+    assert.equal(bad.errors.length, 1);
+  });
+
+  it("computeBulkRename: target equal to an unchanged name is rejected", () => {
+    const plan = computeBulkRename(["v1.a", "v2.a"], {
+      kind: "replace",
+      find: "v1",
+      replace: "v2",
+    });
+    // v1.a -> v2.a 는 그대로 남는 v2.a와 겹침
+    assert.equal(plan.renames.length, 0);
+    assert.equal(plan.errors[0].name, "v1.a");
+  });
+});
@@ -0,0 +1,195 @@
+// src/test/fs-history.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  FsOpOf,
+  HistoryEntry,
+  collectBlobIds,
+  collectOpUris,
+  describeOp,
+  deserializeEntry,
+  inlinePayloadBytes,
+  isBlobRef,
+  mapOpUris,
+  pruneHistory,
+  serializeEntry,
+} from "../lib/fs-history";
+
+const bytes = (s: string) => new Uint8Array(Buffer.from(s, "utf8"));
+
+const sampleOp: FsOpOf<string> = {
+  type: "batch",
+  ops: [
+    { type: "mkdir", uri: "/a" },
+    { type: "createFile", uri: "/a/x.txt", contents: bytes("x") },
+    { type: "rename", from: "/b", to: "/c" },
+    {
+      type: "rmdir",
+      uri: "/d",
+      snapshot: {
+        dirs: [""],
+        files: [{ rel: "big.bin", contents: { blob: "b1" } }],
+      },
+    },
+  ],
+};
+
+describe("fs-history", () => {
+  it("mapOpUris: maps every uri including nested batch", () => {
+    const out = mapOpUris(sampleOp, (u) => u.toUpperCase());
+    assert.equal(out.type, "batch");
+    if (out.type !== "batch") return;
+    const target = (o: FsOpOf<string>) => {
+      switch (o.type) {
+        case "rename":
+          return o.to;
+        case "batch":
+          return null;
+        default:
+          return o.uri;
+      }
+    };
+    assert.deepEqual(out.ops.map(target), ["/A", "/A/X.TXT", "/C", "/D"]);
+  });
+
+  it("collectOpUris: lists rename sources and targets and nested uris", () => {
+    assert.deepEqual(collectOpUris(sampleOp), [
+      "/a",
+      "/a/x.txt",
+      "/b",
+      "/c",
+      "/d",
+    ]);
+  });
+
+  it("serializeEntry/deserializeEntry: round-trips inline and blob payloads", () => {
+    const entry: HistoryEntry<string> = { op: sampleOp, at: 123 };
+    const json = JSON.parse(JSON.stringify(serializeEntry(entry, (u) => u)));
+    const back = deserializeEntry(json, (u: string) => u);
+
+    assert.equal(back.at, 123);
+    assert.equal(back.op.type, "batch");
+    if (back.op.type !== "batch") return;
+
+    const create = back.op.ops[1];
+    assert.equal(create.type, "createFile");
+    if (create.type !== "createFile") return;
+    assert.ok(create.contents instanceof Uint8Array);
+    assert.equal(Buffer.from(create.contents as Uint8Array).toString(), "x");
+
+    const rmdir = back.op.ops[3];
+    if (rmdir.type !== "rmdir") return assert.fail("expected rmdir");
+    assert.ok(isBlobRef(rmdir.snapshot.files[0].contents));
+  });
+
+  it("collectBlobIds: finds blob refs in nested ops", () => {
+    const ids = collectBlobIds([
+      { op: sampleOp, at: 0 },
+      {
+        op: {
+          type: "writeFile",
+          uri: "/f",
+          before: { blob: "b2" },
+          after: bytes("y"),
+        },
+        at: 0,
+      },
+    ]);
+    assert.deepEqual([...ids].sort(), ["b1", "b2"]);
+  });
+
+  it("inlinePayloadBytes: sums inline contents across nested ops", () => {
+    const op: FsOpOf<string> = {
+      type: "batch",
+      ops: [
+        sampleOp,
+        {
+          type: "rmdir",
+          uri: "/e",
+          snapshot: {
+            dirs: [""],
+            files: ["a", "b", "c"].map((rel) => ({
+              rel,
+              contents: bytes("1234"),
+            })),
+          },
+        },
+      ],
+    };
+    // sampleOp: "x" (1) + blob(0), rmdir: 3 * 4
+    assert.equal(inlinePayloadBytes(op), 13);
+  });
+
+  it("pruneHistory: drops entries older than maxAge and beyond maxEntries", () => {
+    const entries: HistoryEntry<string>[] = [1, 2, 3, 4, 5].map((at) => ({
+      op: { type: "mkdir", uri: `/${at}` },
+      at,
+    }));
+
+    const byAge = pruneHistory(entries, { maxEntries: 0, maxAgeMs: 3, now: 5 });
+    assert.deepEqual(
+      byAge.map((e) => e.at),
+      [2, 3, 4, 5]
+    );
+
+    const byCount = pruneHistory(entries, {
+      maxEntries: 2,
+      maxAgeMs: 0,
+      now: 5,
+    });
+    assert.deepEqual(
+      byCount.map((e) => e.at),
+      [4, 5]
+    );
+  });
+
+  it("describeOp: single ops", () => {
+    const p = (u: string) => u;
+    assert.equal(
+      describeOp(
+        { type: "rmdir", uri: "src/foo", snapshot: { dirs: [], files: [] } },
+        p
+      ),
+      "Deleted folder foo"
+    );
+    assert.equal(
+      describeOp({ type: "rename", from: "src/a.ts", to: "src/b.ts" }, p),
+      "Renamed a.ts to b.ts"
+    );
+    assert.equal(
+      describeOp({ type: "rename", from: "src/a.ts", to: "lib/a.ts" }, p),
+      "Moved a.ts to lib"
+    );
+  });
+
+  it("describeOp: batch heuristics and label", () => {
+    const p = (u: string) => u;
+    const page: FsOpOf<string> = {
+      type: "batch",
+      ops: [
+        { type: "mkdir", uri: "src/page.nav.admin" },
+        { type: "createFile", uri: "src/page.nav.admin/view.pug" },
+        { type: "createFile", uri: "src/page.nav.admin/app.json" },
+      ],
+    };
+    assert.equal(
+      describeOp(page, p),
+      "Created Wiz page page.nav.admin (2 files)"
+    );
+
+    const moves: FsOpOf<string> = {
+      type: "batch",
+      ops: ["a", "b", "c"].map((n) => ({
+        type: "rename" as const,
+        from: `x/${n}`,
+        to: `src/app/${n}`,
+      })),
+    };
+    assert.equal(describeOp(moves, p), "Moved 3 items to src/app");
+
+    assert.equal(
+      describeOp({ type: "batch", ops: [], label: "Custom" }, p),
+      "Custom"
+    );
+  });
+});
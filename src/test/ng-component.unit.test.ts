@@ -0,0 +1,148 @@
+// src/test/ng-component.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  buildTemplateSnippet,
+  ngDriftIssues,
+  parseNgMembers,
+  syncNgAppJson,
+} from "../lib/ng-component";
+
+const viewTs = `
+import { Component, Input, Output, EventEmitter, input, output } from "@angular/core";
+
+@Component({ selector: "ignored", template: "{}" })
+export class Component {
+  @Input() title: string = "";
+  @Input("menuItems") items: any[] = [];
+  @Input({ alias: "isOpen", required: true }) open!: boolean;
+  @Input() set size(value: number) {
+    this._size = value;
+  }
+  // @Input() commented: string;
+  @Output() changed = new EventEmitter<string>();
+  @Output('closed') private close$ = new EventEmitter<void>();
+
+  count = input<number>(0);
+  label = input.required<string>({ alias: "caption" });
+  readonly selected = output<string>();
+
+  ngOnInit() {
+    const local = input(1);
+    this.changed.emit("x");
+  }
+}
+`;
+
+describe("ng-component", () => {
+  it("parseNgMembers: decorators, aliases and signals in declaration order", () => {
+    assert.deepEqual(parseNgMembers(viewTs), {
+      inputs: ["title", "menuItems", "isOpen", "size", "count", "caption"],
+      outputs: ["changed", "closed", "selected"],
+    });
+  });
+
+  it("parseNgMembers: null without an exported Component class", () => {
+    assert.equal(parseNgMembers("export class Other {}"), null);
+    assert.deepEqual(parseNgMembers("export class Component {}"), {
+      inputs: [],
+      outputs: [],
+    });
+  });
+
+  it("syncNgAppJson: fills ng from view.ts and template", () => {
+    const text =
+      JSON.stringify(
+        {
+          mode: "component",
+          template: "wiz-component-nav()",
+          ng: { selector: "", inputs: [], outputs: [], extra: 1 },
+          title: "Nav",
+        },
+        null,
+        2
+      ) + "\n";
+
+    const next = syncNgAppJson(text, { inputs: ["a"], outputs: ["b"] })!;
+    assert.ok(next.endsWith("}\n"));
+    const json = JSON.parse(next);
+    assert.deepEqual(Object.keys(json), ["mode", "template", "ng", "title"]);
+    assert.deepEqual(json.ng, {
+      selector: "wiz-component-nav",
+      inputs: ["a"],
+      outputs: ["b"],
+      extra: 1,
+    });
+
+    // 이미 맞으면 null
+    assert.equal(syncNgAppJson(next, { inputs: ["a"], outputs: ["b"] }), null);
+    assert.equal(syncNgAppJson("{ broken", { inputs: [], outputs: [] }), null);
+  });
+
+  it("syncNgAppJson: keeps formatting and adds a missing ng block", () => {
+    const text =
+      '{\n    "template": "wiz-component-nav()",\n    "ng": { "selector": "", "inputs": [], "outputs": [] }\n}';
+    assert.equal(
+      syncNgAppJson(text, { inputs: ["a", "b"], outputs: [] }),
+      '{\n    "template": "wiz-component-nav()",\n    "ng": { "selector": "wiz-component-nav", "inputs": ["a", "b"], "outputs": [] }\n}'
+    );
+
+    const legacy = JSON.parse(
+      syncNgAppJson('{ "template": "wiz-page-main()" }', {
+        inputs: [],
+        outputs: ["c"],
+      })!
+    );
+    assert.deepEqual(legacy.ng, {
+      selector: "wiz-page-main",
+      inputs: [],
+      outputs: ["c"],
+    });
+  });
+
+  it("ngDriftIssues: one warning per field that disagrees", () => {
+    const text = JSON.stringify({
+      template: "wiz-page-main()",
+      ng: { selector: "wiz-page-main", inputs: ["old"], outputs: [] },
+    });
+    const issues = ngDriftIssues(text, { inputs: ["a", "b"], outputs: [] });
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].field, "ng");
+    assert.equal(issues[0].severity, "warning");
+    assert.ok(issues[0].message.includes("a, b"));
+    assert.equal(text.slice(issues[0].start, issues[0].start + 1), "{");
+
+    assert.deepEqual(ngDriftIssues(text, { inputs: ["old"], outputs: [] }), []);
+  });
+
+  it("ngDriftIssues: legacy app.json without ng is not flagged", () => {
+    const members = { inputs: ["a"], outputs: ["b"] };
+    const legacy = JSON.stringify({ template: "wiz-page-main()" });
+    assert.deepEqual(ngDriftIssues(legacy, members), []);
+
+    // ng는 있지만 inputs/outputs가 빠진 경우 빈 목록과 비교
+    const partial = JSON.stringify({
+      template: "wiz-page-main()",
+      ng: { selector: "wiz-page-main" },
+    });
+    assert.deepEqual(ngDriftIssues(partial, { inputs: [], outputs: [] }), []);
+    assert.equal(ngDriftIssues(partial, members).length, 2);
+  });
+
+  it("buildTemplateSnippet: pug and html with tab stops", () => {
+    const ng = { inputs: ["title", "$item"], outputs: ["closed"] };
+    assert.equal(
+      buildTemplateSnippet("wiz-component-card()", ng, "pug"),
+      'wiz-component-card([title]="$1", [\\$item]="$2", (closed)="$3")'
+    );
+    assert.equal(
+      buildTemplateSnippet("wiz-component-card()", ng, "html"),
+      '<wiz-component-card [title]="$1" [\\$item]="$2" (closed)="$3">$0</wiz-component-card>'
+    );
+    assert.equal(
+      buildTemplateSnippet("wiz-page-main()", undefined, "pug"),
+      "wiz-page-main()"
+    );
+    assert.equal(buildTemplateSnippet('{"a": 1}', {}, "pug"), null);
+  });
+});
@@ -0,0 +1,71 @@
+// src/test/scaffold.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import { renderScaffold, scaffoldAppJson, scaffoldVars } from "../lib/scaffold";
+
+const vars = scaffoldVars({
+  mode: "portal",
+  id: "nav.admin",
+  namespace: "nav.admin",
+  template: "wiz-portal-app1-nav-admin()",
+  folderName: "portal.app1.nav.admin",
+  baseFsPath: "/x/portal/app1/app",
+});
+
+describe("scaffold", () => {
+  it("scaffoldVars: portalApp from base path", () => {
+    assert.equal(vars.portalApp, "app1");
+    assert.equal(
+      scaffoldVars({ ...vars, mode: "page", baseFsPath: "/x/src/app" })
+        .portalApp,
+      ""
+    );
+  });
+
+  it("renderScaffold: replaces known vars (with spaces) and keeps unknown", () => {
+    const out = renderScaffold(
+      "{{id}} / {{ namespace }} / {{portalApp}} / {{ item.title }} / {{foo}}",
+      vars
+    );
+    assert.equal(
+      out,
+      "nav.admin / nav.admin / app1 / {{ item.title }} / {{foo}}"
+    );
+  });
+
+  it("scaffoldAppJson: forces identity and keeps other fields in order", () => {
+    const text =
+      JSON.stringify(
+        { mode: "page", title: "T", id: "x", category: "c" },
+        null,
+        2
+      ) + "\n";
+    const out = scaffoldAppJson(text, vars);
+    assert.ok(out?.endsWith("}\n"));
+    const json = JSON.parse(out!);
+    assert.deepEqual(Object.keys(json), [
+      "mode",
+      "title",
+      "id",
+      "category",
+      "namespace",
+      "template",
+    ]);
+    assert.equal(json.mode, "portal");
+    assert.equal(json.template, "wiz-portal-app1-nav-admin()");
+  });
+
+  it("scaffoldAppJson: ng.selector follows the forced template", () => {
+    const text = JSON.stringify({
+      mode: "portal",
+      ng: { selector: "wiz-old", inputs: [], outputs: [] },
+    });
+    const json = JSON.parse(scaffoldAppJson(text, vars)!);
+    assert.equal(json.ng.selector, "wiz-portal-app1-nav-admin");
+  });
+
+  it("scaffoldAppJson: invalid json => null", () => {
+    assert.equal(scaffoldAppJson("{ nope", vars), null);
+    assert.equal(scaffoldAppJson("[]", vars), null);
+  });
+});
@@ -0,0 +1,138 @@
+// src/test/template-usages.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  templateTagName,
+  findTemplateUsages,
+  replaceTemplateUsages,
+  tagAtPosition,
+  findWizFolderForTag,
+  templateTagsForAppJson,
+} from "../lib/template-usages";
+
+describe("template-usages", () => {
+  it("templateTagName: strips trailing ()", () => {
+    assert.equal(
+      templateTagName(" wiz-component-nav-admin() "),
+      "wiz-component-nav-admin"
+    );
+    assert.equal(templateTagName("wiz-page-main"), "wiz-page-main");
+    assert.equal(templateTagName(undefined as any), "");
+  });
+
+  it("findTemplateUsages: pug usages with line/character", () => {
+    const text = "div\n  wiz-component-nav()\n  wiz-component-nav(title='a')";
+    const out = findTemplateUsages(text, "wiz-component-nav");
+    assert.deepEqual(
+      out.map((u) => [u.line, u.character]),
+      [
+        [1, 2],
+        [2, 2],
+      ]
+    );
+    assert.equal(out[0].offset, 6);
+    assert.equal(out[1].lineText, "  wiz-component-nav(title='a')");
+  });
+
+  it("findTemplateUsages: ignores longer tags with the same prefix", () => {
+    const text = "wiz-component-nav-admin()\nxwiz-component-nav()";
+    assert.equal(findTemplateUsages(text, "wiz-component-nav").length, 0);
+  });
+
+  it("findTemplateUsages: html open and close tags", () => {
+    const text = "<wiz-page-main></wiz-page-main>";
+    assert.equal(findTemplateUsages(text, "wiz-page-main").length, 2);
+  });
+
+  it("replaceTemplateUsages: replaces every exact usage", () => {
+    const text =
+      "wiz-layout-a()\nwiz-layout-a-b()\n<wiz-layout-a></wiz-layout-a>";
+    const out = replaceTemplateUsages(text, "wiz-layout-a", "wiz-layout-c");
+    assert.equal(out.count, 3);
+    assert.equal(
+      out.text,
+      "wiz-layout-c()\nwiz-layout-a-b()\n<wiz-layout-c></wiz-layout-c>"
+    );
+  });
+
+  it("replaceTemplateUsages: same tag is a no-op", () => {
+    assert.deepEqual(replaceTemplateUsages("wiz-a()", "wiz-a", "wiz-a"), {
+      text: "wiz-a()",
+      count: 0,
+    });
+  });
+
+  it("tagAtPosition: finds the tag under the cursor", () => {
+    const line = "  wiz-component-nav-admin(title='a') wiz-page-x()";
+    assert.deepEqual(tagAtPosition(line, 5), {
+      tag: "wiz-component-nav-admin",
+      start: 2,
+      end: 25,
+    });
+    assert.equal(tagAtPosition(line, 40)?.tag, "wiz-page-x");
+    assert.equal(tagAtPosition(line, 30), null);
+  });
+
+  it("tagAtPosition: html tag name", () => {
+    assert.equal(
+      tagAtPosition("<wiz-layout-a></wiz-layout-a>", 3)?.tag,
+      "wiz-layout-a"
+    );
+  });
+
+  it("templateTagsForAppJson: stored template and rule-derived template", () => {
+    const tags = templateTagsForAppJson(
+      {
+        mode: "component",
+        id: "component.nav.admin",
+        namespace: "nav.admin",
+        template: "wiz-component-old()",
+      },
+      "/x/src/app"
+    );
+    assert.deepEqual(tags, ["wiz-component-old", "wiz-component-nav-admin"]);
+  });
+
+  it("templateTagsForAppJson: portal app name comes from the path", () => {
+    const tags = templateTagsForAppJson(
+      { mode: "portal", id: "header", namespace: "header" },
+      "/x/portal/app1/src"
+    );
+    assert.deepEqual(tags, ["wiz-portal-app1-header"]);
+  });
+
+  it("templateTagsForAppJson: portal outside portal/<app> has no derived tag", () => {
+    assert.deepEqual(
+      templateTagsForAppJson({ mode: "portal", id: "a" }, "/x/src"),
+      []
+    );
+  });
+
+  it("findWizFolderForTag: stored or rule-derived template", () => {
+    const entries = [
+      {
+        fsPath: "/x/src/app/component.nav",
+        mode: "component",
+        id: "component.nav",
+        namespace: "",
+        template: "",
+      },
+      {
+        fsPath: "/x/src/app/component.old",
+        mode: "component",
+        id: "component.old",
+        namespace: "old",
+        template: "wiz-component-legacy()",
+      },
+    ];
+    assert.equal(
+      findWizFolderForTag(entries, "wiz-component-nav")?.fsPath,
+      "/x/src/app/component.nav"
+    );
+    assert.equal(
+      findWizFolderForTag(entries, "wiz-component-legacy")?.fsPath,
+      "/x/src/app/component.old"
+    );
+    assert.equal(findWizFolderForTag(entries, "wiz-component-none"), undefined);
+  });
+});
@@ -0,0 +1,51 @@
+// src/test/wiz-completions.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import { toWizIndexEntry } from "../lib/wiz-index";
+import { wizTagCompletions } from "../lib/wiz-completions";
+
+describe("wiz-completions", () => {
+  it("wizTagCompletions: embeddable modes only, sorted by tag", () => {
+    const items = wizTagCompletions([
+      toWizIndexEntry("/src/app/page.main", {
+        mode: "page",
+        template: "wiz-page-main()",
+      }),
+      toWizIndexEntry("/src/app/component.nav", {
+        mode: "component",
+        id: "component.nav",
+        title: "Navigation",
+        template: "wiz-component-nav()",
+        ng: { inputs: ["items"], outputs: ["selected"] },
+      }),
+      toWizIndexEntry("/src/app/layout.side", {
+        mode: "layout",
+        template: "wiz-layout-side()",
+      }),
+      toWizIndexEntry("/src/app/component.broken", { mode: "component" }),
+    ]);
+
+    assert.deepEqual(
+      items.map((i) => i.tag),
+      ["wiz-component-nav", "wiz-layout-side"]
+    );
+    const nav = items[0];
+    assert.equal(nav.pug, 'wiz-component-nav([items]="$1", (selected)="$2")');
+    assert.equal(
+      nav.html,
+      '<wiz-component-nav [items]="$1" (selected)="$2">$0</wiz-component-nav>'
+    );
+    assert.ok(nav.documentation.startsWith("**Navigation**"));
+    assert.ok(nav.documentation.includes("inputs: `items`"));
+    assert.ok(nav.documentation.includes("outputs: `selected`"));
+  });
+
+  it("wizTagCompletions: duplicate templates are listed once", () => {
+    const app = { mode: "component", template: "wiz-component-nav()" };
+    const items = wizTagCompletions([
+      toWizIndexEntry("/src/app/component.nav (1)", app),
+      toWizIndexEntry("/src/app/component.nav", app),
+    ]);
+    assert.equal(items.length, 1);
+  });
+});
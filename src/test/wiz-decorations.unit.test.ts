@@ -0,0 +1,36 @@
+// src/test/wiz-decorations.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import { parseWizMeta } from "../lib/wiz-index";
+import { wizFolderDecoration, wizModeBadge } from "../lib/wiz-decorations";
+
+describe("wiz-decorations", () => {
+  it("wizModeBadge", () => {
+    assert.equal(wizModeBadge("page"), "P");
+    assert.equal(wizModeBadge("component"), "C");
+    assert.equal(wizModeBadge("layout"), "L");
+    assert.equal(wizModeBadge("portal"), "Po");
+    assert.equal(wizModeBadge("unknown"), undefined);
+  });
+
+  it("wizFolderDecoration: mode badge for a healthy folder", () => {
+    const d = wizFolderDecoration(parseWizMeta('{"mode":"component"}'), 0);
+    assert.deepEqual(d, { badge: "C", tooltip: "mode: component" });
+  });
+
+  it("wizFolderDecoration: app.json problems win over unsaved tabs", () => {
+    for (const text of [null, "{ broken", "{}", '{"mode":"widget"}']) {
+      const d = wizFolderDecoration(parseWizMeta(text), 2);
+      assert.equal(d.badge, "!");
+      assert.equal(d.tone, "error");
+      assert.ok(d.tooltip.endsWith("저장 안 된 탭 2개"));
+    }
+  });
+
+  it("wizFolderDecoration: dirty marker", () => {
+    const d = wizFolderDecoration(parseWizMeta('{"mode":"page"}'), 1);
+    assert.equal(d.badge, "●");
+    assert.equal(d.tone, "dirty");
+    assert.equal(d.tooltip, "mode: page\n저장 안 된 탭 1개");
+  });
+});
@@ -0,0 +1,131 @@
+// src/test/wiz-duplicates.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import { toWizIndexEntry } from "../lib/wiz-index";
+import { findIdentityConflict, findWizDuplicates } from "../lib/wiz-duplicates";
+
+const nav = {
+  mode: "component",
+  id: "component.nav",
+  namespace: "nav",
+  template: "wiz-component-nav()",
+};
+
+describe("wiz-duplicates", () => {
+  it("findWizDuplicates: reports every field on both folders", () => {
+    const dups = findWizDuplicates([
+      toWizIndexEntry("/src/app/component.nav", nav),
+      toWizIndexEntry("/src/app/component.nav (1)", nav),
+      toWizIndexEntry("/src/app/page.main", {
+        mode: "page",
+        id: "page.main",
+        namespace: "main",
+        template: "wiz-page-main()",
+      }),
+    ]);
+
+    assert.deepEqual([...dups.keys()].sort(), [
+      "/src/app/component.nav",
+      "/src/app/component.nav (1)",
+    ]);
+    const first = dups.get("/src/app/component.nav")!;
+    assert.deepEqual(
+      first.map((d) => [d.field, d.value, d.others]),
+      [
+        ["id", "component.nav", ["/src/app/component.nav (1)"]],
+        ["namespace", "nav", ["/src/app/component.nav (1)"]],
+        ["template", "wiz-component-nav()", ["/src/app/component.nav (1)"]],
+      ]
+    );
+  });
+
+  it("findWizDuplicates: namespace only clashes within the same mode and portal app", () => {
+    const dups = findWizDuplicates([
+      toWizIndexEntry("/src/app/page.nav", { mode: "page", namespace: "nav" }),
+      toWizIndexEntry("/src/app/component.nav", {
+        mode: "component",
+        namespace: "nav",
+      }),
+      toWizIndexEntry("/src/portal/a/app/nav", {
+        mode: "portal",
+        namespace: "nav",
+      }),
+      toWizIndexEntry("/src/portal/b/app/nav", {
+        mode: "portal",
+        namespace: "nav",
+      }),
+      toWizIndexEntry("/src/app/x", {}),
+      toWizIndexEntry("/src/app/y", {}),
+    ]);
+    assert.equal(dups.size, 0);
+  });
+
+  it("findWizDuplicates: portal ids only clash within the same portal app", () => {
+    const header = (app: string, name = "header") =>
+      toWizIndexEntry(`/src/portal/${app}/app/${name}`, {
+        mode: "portal",
+        id: "header",
+        template: `wiz-portal-${app}-${name}()`,
+      });
+    const dups = findWizDuplicates([
+      header("app1"),
+      header("app2"),
+      header("app2", "header2"),
+    ]);
+    assert.deepEqual([...dups.keys()].sort(), [
+      "/src/portal/app2/app/header",
+      "/src/portal/app2/app/header2",
+    ]);
+    assert.deepEqual(
+      dups.get("/src/portal/app2/app/header")!.map((d) => d.field),
+      ["id"]
+    );
+  });
+
+  it("findIdentityConflict: matches id or template", () => {
+    const entries = [toWizIndexEntry("/src/app/component.nav", nav)];
+    const at = { mode: "component", baseFsPath: "/src/app" };
+    assert.equal(
+      findIdentityConflict(entries, {
+        ...at,
+        id: "component.nav",
+        template: "wiz-component-other()",
+      })?.field,
+      "id"
+    );
+    assert.equal(
+      findIdentityConflict(entries, {
+        ...at,
+        id: "component.nav2",
+        template: "wiz-component-nav()",
+      })?.field,
+      "template"
+    );
+    assert.equal(
+      findIdentityConflict(entries, {
+        ...at,
+        id: "component.new",
+        template: "wiz-component-new()",
+      }),
+      null
+    );
+  });
+
+  it("findIdentityConflict: portal ids are scoped per portal app", () => {
+    const entries = [
+      toWizIndexEntry("/src/portal/app1/app/header", {
+        mode: "portal",
+        id: "header",
+        template: "wiz-portal-app1-header()",
+      }),
+    ];
+    const header = (app: string) => ({
+      mode: "portal",
+      baseFsPath: `/src/portal/${app}/app`,
+      id: "header",
+      template: `wiz-portal-${app}-header()`,
+    });
+    assert.equal(findIdentityConflict(entries, header("app2")), null);
+    assert.equal(findIdentityConflict(entries, header("app1"))?.field, "id");
+  });
+});
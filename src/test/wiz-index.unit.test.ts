@@ -0,0 +1,107 @@
+// src/test/wiz-index.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  WizIndex,
+  isSameOrInsidePath,
+  parseWizMeta,
+  toWizIndexEntry,
+} from "../lib/wiz-index";
+
+describe("wiz-index", () => {
+  it("parseWizMeta: reads fields and falls back to unknown mode", () => {
+    const meta = parseWizMeta(
+      JSON.stringify({
+        mode: "component",
+        id: "component.nav",
+        namespace: "nav",
+        template: "wiz-component-nav()",
+        Category: " layout ",
+        ng: { selector: "wiz-component-nav", inputs: ["items", 1] },
+      })
+    );
+    assert.equal(meta.mode, "component");
+    assert.equal(meta.id, "component.nav");
+    assert.equal(meta.template, "wiz-component-nav()");
+    assert.equal(meta.category, "layout");
+    assert.deepEqual(meta.inputs, ["items"]);
+    assert.deepEqual(meta.outputs, []);
+    assert.equal(meta.title, "");
+
+    assert.equal(meta.appJson, "ok");
+
+    assert.equal(parseWizMeta(null).mode, "unknown");
+    assert.equal(parseWizMeta(null).appJson, "missing");
+    assert.equal(parseWizMeta("{ broken").appJson, "invalid");
+    assert.equal(parseWizMeta("{ broken").mode, "unknown");
+    assert.equal(parseWizMeta("[]").mode, "unknown");
+    assert.equal(parseWizMeta('{"mode": "  "}').mode, "unknown");
+  });
+
+  it("isSameOrInsidePath", () => {
+    assert.ok(isSameOrInsidePath("/a/b", "/a/b"));
+    assert.ok(isSameOrInsidePath("/a/b/c", "/a/b"));
+    assert.ok(!isSameOrInsidePath("/a/bc", "/a/b"));
+    assert.ok(!isSameOrInsidePath("/a", "/a/b"));
+  });
+
+  it("set: reports whether metadata changed", () => {
+    const index = new WizIndex();
+    assert.ok(
+      index.set(toWizIndexEntry("/src/app/page.main", { mode: "page" }))
+    );
+    assert.ok(
+      !index.set(toWizIndexEntry("/src/app/page.main", { mode: "page" }))
+    );
+    assert.ok(
+      index.set(toWizIndexEntry("/src/app/page.main", { mode: "component" }))
+    );
+    assert.equal(index.get("/src/app/page.main")?.mode, "component");
+    assert.equal(index.size, 1);
+  });
+
+  it("childrenOf: direct children only, sorted by name", () => {
+    const index = new WizIndex();
+    index.set(toWizIndexEntry("/src/app/page.b", { mode: "page" }));
+    index.set(toWizIndexEntry("/src/app/page.a", { mode: "page" }));
+    index.set(toWizIndexEntry("/src/app/nested/page.c", { mode: "page" }));
+
+    assert.deepEqual(
+      index.childrenOf("/src/app").map((e) => e.fsPath),
+      ["/src/app/page.a", "/src/app/page.b"]
+    );
+  });
+
+  it("under: every depth below the folder, excluding the folder itself", () => {
+    const index = new WizIndex();
+    index.set(toWizIndexEntry("/ws", { mode: "page" }));
+    index.set(toWizIndexEntry("/ws/src/app/page.a", { mode: "page" }));
+    index.set(toWizIndexEntry("/ws/src/portal/x/page.b", { mode: "page" }));
+    index.set(toWizIndexEntry("/other/page.c", { mode: "page" }));
+
+    assert.deepEqual(
+      index
+        .under("/ws")
+        .map((e) => e.fsPath)
+        .sort(),
+      ["/ws/src/app/page.a", "/ws/src/portal/x/page.b"]
+    );
+  });
+
+  it("deleteUnder: removes the folder and everything below it", () => {
+    const index = new WizIndex();
+    index.set(toWizIndexEntry("/src/portal/x/page.a", { mode: "page" }));
+    index.set(toWizIndexEntry("/src/portal/x/sub/page.b", { mode: "page" }));
+    index.set(toWizIndexEntry("/src/portal/xy/page.c", { mode: "page" }));
+
+    const removed = index.deleteUnder("/src/portal/x");
+    assert.deepEqual(removed.map((e) => e.fsPath).sort(), [
+      "/src/portal/x/page.a",
+      "/src/portal/x/sub/page.b",
+    ]);
+    assert.deepEqual(
+      index.all().map((e) => e.fsPath),
+      ["/src/portal/xy/page.c"]
+    );
+  });
+});
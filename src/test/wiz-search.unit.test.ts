@@ -0,0 +1,44 @@
+// src/test/wiz-search.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import { toWizIndexEntry } from "../lib/wiz-index";
+import { fuzzyScore, searchWizPages, wizPageLabel } from "../lib/wiz-search";
+
+const pages = [
+  toWizIndexEntry("/src/app/page.main", {
+    mode: "page",
+    id: "page.main",
+    title: "Main",
+    viewuri: "/main",
+  }),
+  toWizIndexEntry("/src/app/component.nav.admin", {
+    mode: "component",
+    id: "component.nav.admin",
+    title: "Admin Navigation",
+    category: "layout",
+  }),
+  toWizIndexEntry("/src/app/legacy", {}),
+];
+
+describe("wiz-search", () => {
+  it("fuzzyScore: subsequence match, case-insensitive", () => {
+    assert.ok(fuzzyScore("cna", "component.nav.admin") !== null);
+    assert.equal(fuzzyScore("xyz", "component.nav.admin"), null);
+    assert.equal(fuzzyScore("", "anything"), 0);
+    // 연속 / 단어 시작 매치가 더 높음
+    assert.ok(
+      fuzzyScore("nav", "component.nav")! > fuzzyScore("nav", "nxaxv")!
+    );
+  });
+
+  it("searchWizPages: matches any field, every word must match", () => {
+    const ids = (q: string) => searchWizPages(pages, q).map(wizPageLabel);
+
+    assert.deepEqual(ids(""), ["component.nav.admin", "legacy", "page.main"]);
+    assert.deepEqual(ids("/main"), ["page.main"]);
+    assert.deepEqual(ids("layout"), ["component.nav.admin"]);
+    assert.deepEqual(ids("component admnav"), ["component.nav.admin"]);
+    assert.deepEqual(ids("unknown"), ["legacy"]);
+    assert.deepEqual(ids("page zzz"), []);
+  });
+});
@@ -0,0 +1,100 @@
+// src/test/wiz-tabs.unit.test.ts
+import { describe, it } from "vitest";
+import { strict as assert } from "assert";
+import {
+  DEFAULT_WIZ_TABS,
+  DEFAULT_WIZ_FOLDER_MARKERS,
+  languageForFilename,
+  resolveTabs,
+  resolveWizFolderMarkers,
+} from "../lib/wiz-tabs";
+
+describe("wiz-tabs", () => {
+  it("resolveTabs: no settings => default tabs", () => {
+    const tabs = resolveTabs({ extra: undefined, byMode: undefined });
+    assert.deepEqual(tabs, DEFAULT_WIZ_TABS);
+  });
+
+  it("resolveTabs: extra tabs are appended with filename key and inferred language", () => {
+    const tabs = resolveTabs({
+      extra: [
+        { filename: "view.less" },
+        { label: "Readme", filename: "README.md" },
+        { label: "Model", filename: "model.py", language: "plaintext" },
+      ],
+      byMode: {},
+      mode: "page",
+    });
+    assert.deepEqual(tabs.slice(DEFAULT_WIZ_TABS.length), [
+      {
+        key: "view.less",
+        label: "view.less",
+        filename: "view.less",
+        language: "less",
+      },
+      {
+        key: "README.md",
+        label: "Readme",
+        filename: "README.md",
+        language: "markdown",
+      },
+      {
+        key: "model.py",
+        label: "Model",
+        filename: "model.py",
+        language: "plaintext",
+      },
+    ]);
+  });
+
+  it("resolveTabs: same filename overrides label/language of a default tab", () => {
+    const tabs = resolveTabs({
+      extra: [{ label: "Style", filename: "view.scss", language: "css" }],
+      byMode: undefined,
+    });
+    assert.equal(tabs.length, DEFAULT_WIZ_TABS.length);
+    const scss = tabs.find((t) => t.key === "scss");
+    assert.deepEqual(scss, {
+      key: "scss",
+      label: "Style",
+      filename: "view.scss",
+      language: "css",
+    });
+  });
+
+  it("resolveTabs: per-mode list replaces the common extra tabs", () => {
+    const opts = {
+      extra: [{ filename: "README.md" }],
+      byMode: { component: [{ filename: "spec.ts" }] },
+    };
+    const extras = (mode: string) =>
+      resolveTabs({ ...opts, mode })
+        .slice(DEFAULT_WIZ_TABS.length)
+        .map((t) => t.filename);
+
+    assert.deepEqual(extras("component"), ["spec.ts"]);
+    assert.deepEqual(extras("page"), ["README.md"]);
+  });
+
+  it("resolveTabs: ignores invalid entries", () => {
+    const tabs = resolveTabs({
+      extra: [
+        { filename: "../x.ts" },
+        { label: "no file" },
+        null,
+        { filename: " " },
+      ],
+      byMode: undefined,
+    });
+    assert.equal(tabs.length, DEFAULT_WIZ_TABS.length);
+  });
+
+  it("languageForFilename / resolveWizFolderMarkers", () => {
+    assert.equal(languageForFilename("spec.ts"), "typescript");
+    assert.equal(languageForFilename("Makefile"), "plaintext");
+    assert.deepEqual(resolveWizFolderMarkers(["view.pug", "a/b"]), [
+      "view.pug",
+    ]);
+    assert.deepEqual(resolveWizFolderMarkers([]), DEFAULT_WIZ_FOLDER_MARKERS);
+  });
+});